@@ -0,0 +1,233 @@
+pragma solidity ^0.8.24;
+
+import { Governor } from "@openzeppelin/contracts/governance/Governor.sol";
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { VotingService } from "./VoteService_Z.sol";
+import { VotingServiceAdmin } from "./VotingServiceAdmin.sol";
+import { VotingServiceStorage } from "./VotingServiceStorage.sol";
+
+/// @dev IGovernor front end that counts votes in VotingService. Every proposal opens a
+/// three-option plurality poll owned by this governor, in a tenant namespace only it can create
+/// polls in, whose encrypted tallies are the
+/// Against, For and Abstain counters, in GovernorCountingSimple's order. Members vote on the
+/// poll through VotingService, so the governor never handles a ballot and its own castVote
+/// functions revert. `state` follows the revealed result: a proposal whose voting period is
+/// over stays Active until its poll is closed and the tallies are verified.
+contract ConfidentialGovernor is Governor {
+    uint8 public constant AGAINST = 0;
+    uint8 public constant FOR = 1;
+    uint8 public constant ABSTAIN = 2;
+
+    VotingService public immutable votingService;
+    uint48 private immutable _votingDelay;
+    uint32 private immutable _votingPeriod;
+    uint256 private immutable _quorum;
+    /// @dev Tenant registered by this governor at deployment; proposal polls are created as
+    /// "<tenant>/<proposalId>", so nobody else can take their IDs first.
+    bytes32 public immutable tenantId;
+    string public tenantName;
+
+    /// @dev Members allowed to vote on new proposals, as a root over the leaves VotingService
+    /// checks; zero lets everyone vote. Changed through governance.
+    bytes32 public eligibilityRoot;
+    mapping(uint256 => bytes32) public proposalPolls;
+
+    event EligibilityRootSet(bytes32 previousRoot, bytes32 newRoot);
+
+    /// @dev Times are in seconds, as VotingService's polls run on timestamps. `quorum_` counts
+    /// For and Abstain ballots. Deployment fails if `tenantName_` is already registered.
+    constructor(
+        string memory name_,
+        string memory tenantName_,
+        VotingService service,
+        uint48 votingDelay_,
+        uint32 votingPeriod_,
+        uint256 quorum_,
+        bytes32 eligibilityRoot_
+    ) Governor(name_) {
+        require(votingPeriod_ > 0, "Invalid voting period");
+        votingService = service;
+        _votingDelay = votingDelay_;
+        _votingPeriod = votingPeriod_;
+        _quorum = quorum_;
+        eligibilityRoot = eligibilityRoot_;
+        tenantName = tenantName_;
+        tenantId = service.tenantRegistry().registerTenant(tenantName_);
+    }
+
+    /// @dev Applies to proposals created afterwards; open polls keep the root they were created with.
+    function setEligibilityRoot(bytes32 newRoot) external onlyGovernance {
+        emit EligibilityRootSet(eligibilityRoot, newRoot);
+        eligibilityRoot = newRoot;
+    }
+
+    /// @dev Closes the proposal's poll once its voting period is over, which makes the tallies
+    /// publicly decryptable. Anyone can call it; the tallies are then verified on VotingService.
+    function closeProposalPoll(uint256 proposalId) external {
+        votingService.closePoll(proposalPoll(proposalId));
+    }
+
+    function proposalPoll(uint256 proposalId) public view returns (bytes32) {
+        bytes32 pollId = proposalPolls[proposalId];
+        require(pollId != bytes32(0), "Unknown proposal");
+        return pollId;
+    }
+
+    /// @dev The proposal's verified Against, For and Abstain counts.
+    function proposalVotes(
+        uint256 proposalId
+    ) external view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes) {
+        uint32[] memory tallies = _admin().getPollResults(proposalPoll(proposalId));
+        return (tallies[AGAINST], tallies[FOR], tallies[ABSTAIN]);
+    }
+
+    function state(uint256 proposalId) public view override returns (ProposalState) {
+        ProposalState current = super.state(proposalId);
+        if (current == ProposalState.Defeated && !_admin().areTalliesVerified(proposalPoll(proposalId))) {
+            return ProposalState.Active;
+        }
+        return current;
+    }
+
+    function clock() public view override returns (uint48) {
+        return uint48(block.timestamp);
+    }
+
+    function CLOCK_MODE() public pure override returns (string memory) {
+        return "mode=timestamp";
+    }
+
+    function COUNTING_MODE() public pure override returns (string memory) {
+        return "support=bravo&quorum=for,abstain";
+    }
+
+    function votingDelay() public view override returns (uint256) {
+        return _votingDelay;
+    }
+
+    function votingPeriod() public view override returns (uint256) {
+        return _votingPeriod;
+    }
+
+    function quorum(uint256) public view override returns (uint256) {
+        return _quorum;
+    }
+
+    function hasVoted(uint256 proposalId, address account) public view override returns (bool) {
+        return _admin().hasVoted(proposalPoll(proposalId), account);
+    }
+
+    function _propose(
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas,
+        string memory description,
+        address proposer
+    ) internal override returns (uint256 proposalId) {
+        proposalId = super._propose(targets, values, calldatas, description, proposer);
+
+        string[] memory options = new string[](3);
+        options[AGAINST] = "Against";
+        options[FOR] = "For";
+        options[ABSTAIN] = "Abstain";
+
+        // Governor accepts an empty description, but a poll needs a question
+        string memory id = Strings.toString(proposalId);
+        string memory question = bytes(description).length > 0 ? description : string.concat("Proposal ", id);
+
+        proposalPolls[proposalId] = votingService.createPoll(
+            string.concat(tenantName, "/", id),
+            question,
+            VotingServiceStorage.PollConfig({
+                pollType: VotingServiceStorage.PollType.Plurality,
+                optionCount: 3,
+                startTime: proposalSnapshot(proposalId),
+                duration: _votingPeriod,
+                voterCanDecrypt: true,
+                allowRevote: false,
+                quorum: 0,
+                approvalBps: 0,
+                hideCounts: false,
+                eligibilityRoot: eligibilityRoot,
+                weightToken: address(0),
+                weightSnapshotId: 0,
+                weightUnit: 0,
+                eligibilityNft: address(0),
+                confidentialToken: address(0),
+                confidentialMinBalance: 0,
+                confidentialWeightUnit: 0
+            }),
+            VotingServiceStorage.PollMetadata({
+                description: "",
+                options: options,
+                contentHash: bytes32(0),
+                schemaVersion: 1
+            })
+        );
+    }
+
+    /// @dev Cancelling a proposal voids its poll, so its tallies are never released.
+    function _cancel(
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas,
+        bytes32 descriptionHash
+    ) internal override returns (uint256 proposalId) {
+        proposalId = super._cancel(targets, values, calldatas, descriptionHash);
+        _admin().cancelPoll(proposalPoll(proposalId), "Proposal cancelled");
+    }
+
+    /// @dev Votes only count once revealed, so both checks fail until the tallies are verified.
+    function _quorumReached(uint256 proposalId) internal view override returns (bool) {
+        bytes32 pollId = proposalPoll(proposalId);
+        if (!_admin().areTalliesVerified(pollId)) {
+            return false;
+        }
+        uint32[] memory tallies = _admin().getPollResults(pollId);
+        return uint256(tallies[FOR]) + tallies[ABSTAIN] >= quorum(proposalSnapshot(proposalId));
+    }
+
+    function _voteSucceeded(uint256 proposalId) internal view override returns (bool) {
+        bytes32 pollId = proposalPoll(proposalId);
+        if (!_admin().areTalliesVerified(pollId)) {
+            return false;
+        }
+        uint32[] memory tallies = _admin().getPollResults(pollId);
+        return tallies[FOR] > tallies[AGAINST];
+    }
+
+    /// @dev One vote per member. `params` carries the account's eligibility proof when the
+    /// governor has a member list; the current list is used whatever the timepoint.
+    function _getVotes(address account, uint256, bytes memory params) internal view override returns (uint256) {
+        if (eligibilityRoot == bytes32(0)) {
+            return 1;
+        }
+        if (params.length == 0) {
+            return 0;
+        }
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        return MerkleProof.verify(abi.decode(params, (bytes32[])), eligibilityRoot, leaf) ? 1 : 0;
+    }
+
+    function _countVote(uint256, address, uint8, uint256, bytes memory) internal pure override returns (uint256) {
+        revert("Vote through VotingService");
+    }
+
+    /// @dev A clear-text `support` would reveal the vote; ballots are cast encrypted on the
+    /// proposal's poll instead.
+    function _castVote(
+        uint256,
+        address,
+        uint8,
+        string memory,
+        bytes memory
+    ) internal pure override returns (uint256) {
+        revert("Vote through VotingService");
+    }
+
+    /// @dev Views and poll administration are served by the admin module through the service's fallback.
+    function _admin() private view returns (VotingServiceAdmin) {
+        return VotingServiceAdmin(address(votingService));
+    }
+}
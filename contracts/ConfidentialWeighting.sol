@@ -0,0 +1,47 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { IConfidentialToken, VotingServiceStorage } from "./VotingServiceStorage.sol";
+
+/// @dev Escrow, weighing and release of confidential token balances for VotingService and its admin
+/// module, deployed as a linked library so the encrypted arithmetic doesn't count towards
+/// either's bytecode size. Runs through delegatecall, so the escrowed tokens and ACL grants
+/// belong to the service.
+library ConfidentialWeighting {
+    /// @dev Moves the voter's whole balance of the poll's token to the service and weighs it.
+    /// Below the poll's minimum the escrow weighs zero; otherwise one, or escrow /
+    /// confidentialWeightUnit up to `maxWeight` when a unit is set. An account that never held
+    /// the token escrows nothing and, as the minimum is above zero, weighs nothing. The amounts
+    /// and whether the minimum was met stay encrypted.
+    function escrowAndWeigh(
+        VotingServiceStorage.Poll storage poll,
+        address voter,
+        uint32 maxWeight
+    ) external returns (euint64 escrowed, euint32 weight) {
+        escrowed = _escrowBalance(poll.confidentialToken, voter);
+        euint64 unitWeight = poll.confidentialWeightUnit == 0
+            ? FHE.asEuint64(1)
+            : FHE.min(FHE.div(escrowed, poll.confidentialWeightUnit), uint64(maxWeight));
+        weight = FHE.asEuint32(FHE.select(FHE.ge(escrowed, poll.confidentialMinBalance), unitWeight, FHE.asEuint64(0)));
+        FHE.allowThis(weight);
+    }
+
+    /// @dev Sends `escrowed` back to `to`.
+    function releaseEscrow(address token, euint64 escrowed, address to) external {
+        FHE.allowTransient(escrowed, token);
+        IConfidentialToken(token).confidentialTransfer(to, escrowed);
+    }
+
+    /// @dev Returns the amount moved, which the token computes under encryption.
+    function _escrowBalance(address token, address voter) private returns (euint64 escrowed) {
+        euint64 balance = IConfidentialToken(token).confidentialBalanceOf(voter);
+        if (!FHE.isInitialized(balance)) {
+            return balance;
+        }
+        require(FHE.isAllowed(balance, address(this)), "Balance not shared");
+
+        FHE.allowTransient(balance, token);
+        escrowed = IConfidentialToken(token).confidentialTransferFrom(voter, address(this), balance);
+        FHE.allowThis(escrowed);
+    }
+}
@@ -0,0 +1,235 @@
+pragma solidity ^0.8.24;
+
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
+import { VotingService } from "./VoteService_Z.sol";
+import { VotingServiceAdmin } from "./VotingServiceAdmin.sol";
+import { VotingServiceStorage } from "./VotingServiceStorage.sol";
+
+/// @dev Runs a list of calls on behalf of a poll that passed. Proposers attach the calls to a
+/// poll they administer before its first ballot, so voters know what they approve. Once the
+/// poll's outcome is verified as passed, anyone can queue the calls and, after `minDelay`,
+/// execute them. The calls run from this contract, which holds the funds and permissions they
+/// use. Since the proposer creates the poll, its rules can't be trusted on their own: the poll
+/// must meet the admin's `policy` (a minimum quorum, approval threshold and voting window, and
+/// exactly the policy's voters and weighting) both when calls are attached and when they are
+/// queued.
+contract PollTimelock {
+    enum ExecutionStatus {
+        None,
+        Pending,
+        Queued,
+        Executed,
+        Cancelled
+    }
+
+    struct Call {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+
+    /// @dev The voter set and weighting fields must equal the poll's; zero means the poll must
+    /// not use that source. At least one source is set, so policy polls are never open to
+    /// everyone. `minDuration` keeps a proposer from opening and deciding a poll in one block.
+    struct Policy {
+        uint32 minQuorum;
+        uint16 minApprovalBps;
+        uint256 minDuration;
+        bytes32 eligibilityRoot;
+        address eligibilityNft;
+        address weightToken;
+        uint256 weightSnapshotId;
+        uint256 weightUnit;
+        address confidentialToken;
+        uint64 confidentialMinBalance;
+        uint64 confidentialWeightUnit;
+    }
+
+    struct Execution {
+        Call[] calls;
+        uint64 eta;
+        ExecutionStatus status;
+    }
+
+    uint256 public constant MAX_CALLS = 16;
+
+    VotingService public immutable votingService;
+    address public admin;
+    uint256 public minDelay;
+    mapping(address => bool) public isProposer;
+    Policy public policy;
+    mapping(bytes32 => Execution) private executions;
+
+    event CallsAttached(bytes32 indexed pollId, address indexed proposer, uint256 callCount);
+    event CallsQueued(bytes32 indexed pollId, uint256 eta);
+    event CallsExecuted(bytes32 indexed pollId, address indexed executor);
+    event CallsCancelled(bytes32 indexed pollId, address indexed cancelledBy);
+    event ProposerSet(address indexed account, bool allowed);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event MinDelayChanged(uint256 previousDelay, uint256 newDelay);
+    event PolicySet(Policy policy);
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Not timelock admin");
+        _;
+    }
+
+    constructor(VotingService service, address initialAdmin, uint256 initialDelay) {
+        require(initialAdmin != address(0), "Invalid admin");
+        votingService = service;
+        admin = initialAdmin;
+        minDelay = initialDelay;
+    }
+
+    receive() external payable {}
+
+    function setProposer(address account, bool allowed) external onlyAdmin {
+        isProposer[account] = allowed;
+        emit ProposerSet(account, allowed);
+    }
+
+    /// @dev Calls can't be attached until a policy is set. Calls already attached are checked
+    /// against the policy in force when they are queued.
+    function setPolicy(Policy calldata newPolicy) external onlyAdmin {
+        require(newPolicy.minQuorum > 0, "Invalid minimum quorum");
+        require(newPolicy.minApprovalBps <= votingService.BPS_DENOMINATOR(), "Invalid approval threshold");
+        require(
+            newPolicy.eligibilityRoot != bytes32(0) ||
+                newPolicy.eligibilityNft != address(0) ||
+                newPolicy.weightToken != address(0) ||
+                newPolicy.confidentialToken != address(0),
+            "Policy leaves voting open"
+        );
+        require(newPolicy.weightToken == address(0) || newPolicy.weightUnit > 0, "Invalid weight unit");
+        require(
+            newPolicy.confidentialToken == address(0) || newPolicy.confidentialMinBalance > 0,
+            "Invalid minimum balance"
+        );
+        policy = newPolicy;
+        emit PolicySet(newPolicy);
+    }
+
+    function transferAdmin(address newAdmin) external onlyAdmin {
+        require(newAdmin != address(0), "Invalid admin");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+
+    /// @dev Only callable by the timelock itself, i.e. through an executed poll. Calls already
+    /// queued keep their eta.
+    function updateDelay(uint256 newDelay) external {
+        require(msg.sender == address(this), "Only through the timelock");
+        emit MinDelayChanged(minDelay, newDelay);
+        minDelay = newDelay;
+    }
+
+    function attachCalls(bytes32 pollId, Call[] calldata calls) external {
+        require(isProposer[msg.sender], "Not proposer");
+        require(calls.length > 0 && calls.length <= MAX_CALLS, "Invalid call count");
+        require(_admin().isPollAdmin(pollId, msg.sender), "Not poll admin");
+        _requirePolicy(pollId);
+        (, , , , uint32 totalVotes, VotingServiceStorage.PollStatus status, ) = votingService.getPollDetails(pollId);
+        require(
+            status == VotingServiceStorage.PollStatus.Scheduled ||
+                (status == VotingServiceStorage.PollStatus.Active && totalVotes == 0),
+            "Voting already started"
+        );
+
+        Execution storage execution = executions[pollId];
+        require(execution.status == ExecutionStatus.None, "Calls already attached");
+        for (uint256 i = 0; i < calls.length; i++) {
+            execution.calls.push(calls[i]);
+        }
+        execution.status = ExecutionStatus.Pending;
+
+        emit CallsAttached(pollId, msg.sender, calls.length);
+    }
+
+    function queue(bytes32 pollId) external {
+        Execution storage execution = executions[pollId];
+        require(execution.status == ExecutionStatus.Pending, "Calls not pending");
+        (bool verified, , bool passed) = _admin().getPollOutcome(pollId);
+        require(verified, "Outcome not verified");
+        require(passed, "Poll did not pass");
+        // The eligibility root can still change while the poll is scheduled
+        _requirePolicy(pollId);
+
+        uint256 eta = block.timestamp + minDelay;
+        execution.eta = uint64(eta);
+        execution.status = ExecutionStatus.Queued;
+
+        emit CallsQueued(pollId, eta);
+    }
+
+    /// @dev Any ETH sent along is added to the timelock's balance, which funds the calls'
+    /// values. A failing call reverts the whole execution with its reason.
+    function execute(bytes32 pollId) external payable {
+        Execution storage execution = executions[pollId];
+        require(execution.status == ExecutionStatus.Queued, "Calls not queued");
+        require(block.timestamp >= execution.eta, "Timelock not expired");
+
+        execution.status = ExecutionStatus.Executed;
+        for (uint256 i = 0; i < execution.calls.length; i++) {
+            Call storage call = execution.calls[i];
+            Address.functionCallWithValue(call.target, call.data, call.value);
+        }
+
+        emit CallsExecuted(pollId, msg.sender);
+    }
+
+    /// @dev The timelock admin or an admin of the poll can stop calls that haven't run yet.
+    function cancel(bytes32 pollId) external {
+        Execution storage execution = executions[pollId];
+        require(
+            execution.status == ExecutionStatus.Pending || execution.status == ExecutionStatus.Queued,
+            "Calls not cancellable"
+        );
+        require(msg.sender == admin || _admin().isPollAdmin(pollId, msg.sender), "Not allowed to cancel");
+
+        execution.status = ExecutionStatus.Cancelled;
+
+        emit CallsCancelled(pollId, msg.sender);
+    }
+
+    function getExecution(bytes32 pollId) external view returns (
+        ExecutionStatus status,
+        uint256 eta,
+        uint256 callCount
+    ) {
+        Execution storage execution = executions[pollId];
+        return (execution.status, execution.eta, execution.calls.length);
+    }
+
+    function getCalls(bytes32 pollId) external view returns (Call[] memory) {
+        return executions[pollId].calls;
+    }
+
+    function _requirePolicy(bytes32 pollId) private view {
+        require(policy.minQuorum > 0, "Policy not set");
+        VotingServiceStorage.PollRules memory rules = _admin().getPollRules(pollId);
+        require(
+            rules.quorum >= policy.minQuorum && rules.approvalBps >= policy.minApprovalBps,
+            "Outcome rules below policy"
+        );
+        require(rules.duration >= policy.minDuration, "Voting window below policy");
+        require(
+            rules.eligibilityRoot == policy.eligibilityRoot &&
+                rules.eligibilityNft == policy.eligibilityNft &&
+                rules.weightToken == policy.weightToken &&
+                rules.confidentialToken == policy.confidentialToken,
+            "Voters don't match policy"
+        );
+        require(
+            rules.weightSnapshotId == policy.weightSnapshotId &&
+                rules.weightUnit == policy.weightUnit &&
+                rules.confidentialMinBalance == policy.confidentialMinBalance &&
+                rules.confidentialWeightUnit == policy.confidentialWeightUnit,
+            "Weighting doesn't match policy"
+        );
+    }
+
+    /// @dev Poll views are served by the admin module through the service's fallback.
+    function _admin() private view returns (VotingServiceAdmin) {
+        return VotingServiceAdmin(address(votingService));
+    }
+}
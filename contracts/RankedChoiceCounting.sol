@@ -0,0 +1,186 @@
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { VotingServiceStorage } from "./VotingServiceStorage.sol";
+
+/// @dev Instant-runoff ballots and counting for VotingService and its admin module, deployed as
+/// a linked library so the encrypted loops don't count towards either's bytecode size. Runs through
+/// delegatecall, so storage, ACL grants and decryption requests all belong to the service.
+library RankedChoiceCounting {
+    uint8 internal constant NO_WINNER = type(uint8).max;
+
+    /// @dev Stores `ranking` as ballot `index`, replacing it on a re-vote. A ranking
+    /// that isn't an ordering of the options, with an index out of range or repeated, is stored
+    /// as ranking none of them and adds one to the poll's invalid-ballot count, whatever its
+    /// weight, as on plurality polls. The check stays encrypted, so it can't revert: 8 options
+    /// take 8 range checks and 28 comparisons.
+    function storeRanking(
+        VotingServiceStorage.Poll storage poll,
+        VotingServiceStorage.RankedTally storage tally,
+        uint256 index,
+        externalEuint32[] calldata ranking,
+        bytes calldata inputProof
+    ) external {
+        euint32[] memory choices = new euint32[](ranking.length);
+        ebool valid = FHE.asEbool(true);
+        for (uint256 r = 0; r < choices.length; r++) {
+            choices[r] = FHE.fromExternal(ranking[r], inputProof);
+            valid = FHE.and(valid, FHE.lt(choices[r], uint32(poll.optionCount)));
+            for (uint256 earlier = 0; earlier < r; earlier++) {
+                valid = FHE.and(valid, FHE.ne(choices[r], choices[earlier]));
+            }
+        }
+
+        bool revote = index < tally.ballots.length;
+        if (!revote) {
+            tally.ballots.push();
+        }
+        euint32[] storage stored = tally.ballots[index];
+        euint32 invalidBallots = FHE.add(poll.invalidBallots, FHE.asEuint32(FHE.not(valid)));
+        if (revote) {
+            // Invalid rankings are stored with every rank unranked, so the first rank tells
+            invalidBallots = FHE.sub(invalidBallots, FHE.asEuint32(FHE.eq(stored[0], uint32(poll.optionCount))));
+        }
+        poll.invalidBallots = invalidBallots;
+        FHE.allowThis(poll.invalidBallots);
+
+        euint32 unranked = FHE.asEuint32(poll.optionCount);
+        for (uint256 r = 0; r < choices.length; r++) {
+            euint32 choice = FHE.select(valid, choices[r], unranked);
+            FHE.allowThis(choice);
+            if (poll.voterCanDecrypt) {
+                FHE.allow(choice, msg.sender);
+            }
+            if (revote) {
+                stored[r] = choice;
+            } else {
+                stored.push(choice);
+            }
+        }
+    }
+
+    /// @dev Counts up to `maxBallots` ballots towards the current round. Each ballot goes to
+    /// its highest-ranked option that is still in the race. Returns true once every ballot
+    /// is counted, at which point the round's totals are publicly decryptable.
+    function countBallots(
+        VotingServiceStorage.RankedTally storage tally,
+        VotingServiceStorage.Vote[] storage votes,
+        uint8 optionCount,
+        uint256 maxBallots
+    ) external returns (bool roundReady) {
+        if (tally.nextBallot == 0) {
+            delete tally.counts;
+            euint32 initial = FHE.asEuint32(0);
+            FHE.allowThis(initial);
+            for (uint8 o = 0; o < optionCount; o++) {
+                tally.counts.push(initial);
+            }
+        }
+
+        euint32[][] storage ballots = tally.ballots;
+        uint256 end = tally.nextBallot + maxBallots;
+        if (end > ballots.length) {
+            end = ballots.length;
+        }
+
+        euint32 zero = FHE.asEuint32(0);
+        for (uint256 b = tally.nextBallot; b < end; b++) {
+            _countBallot(tally, ballots[b], votes[b].weight, optionCount, zero);
+        }
+        tally.nextBallot = end;
+
+        if (end == ballots.length) {
+            tally.roundReady = true;
+            for (uint8 o = 0; o < optionCount; o++) {
+                FHE.makePubliclyDecryptable(tally.counts[o]);
+            }
+        }
+        return tally.roundReady;
+    }
+
+    /// @dev Applies a round's decrypted totals. A majority of the ballots still in play, or a
+    /// single remaining option, ends the count and `option` is the winner (NO_WINNER on a tie
+    /// or an empty count); otherwise `option` is eliminated (ties eliminate the higher index).
+    function completeRound(
+        VotingServiceStorage.RankedTally storage tally,
+        uint32[] memory counts,
+        uint8 optionCount
+    ) external returns (bool finished, uint8 option) {
+        uint256 total;
+        uint256 remaining;
+        uint8 leader;
+        uint8 trailer;
+        for (uint8 o = 0; o < optionCount; o++) {
+            if (tally.eliminated & (1 << o) != 0) {
+                continue;
+            }
+            if (remaining == 0 || counts[o] > counts[leader]) {
+                leader = o;
+            }
+            if (remaining == 0 || counts[o] <= counts[trailer]) {
+                trailer = o;
+            }
+            total += counts[o];
+            remaining++;
+        }
+
+        if (total == 0) {
+            return _finish(tally, NO_WINNER);
+        }
+        if (uint256(counts[leader]) * 2 > total || remaining <= 2) {
+            // With two options left the leader has a majority unless they are tied
+            if (remaining == 2 && uint256(counts[leader]) * 2 == total) {
+                return _finish(tally, NO_WINNER);
+            }
+            return _finish(tally, leader);
+        }
+
+        tally.eliminated |= (1 << trailer);
+        tally.round++;
+        tally.nextBallot = 0;
+        tally.roundReady = false;
+        return (false, trailer);
+    }
+
+    function _finish(VotingServiceStorage.RankedTally storage tally, uint8 winner) private returns (bool, uint8) {
+        tally.finished = true;
+        tally.roundReady = false;
+        tally.winner = winner;
+        return (true, winner);
+    }
+
+    /// @dev Marks, per option, whether the ballot goes to it, then adds the weight once per
+    /// option. At most optionCount^2 comparisons and three boolean ops each, plus one select and
+    /// add per option: about 11.7M HCU for an 8-option ballot, under the 20M per-transaction cap.
+    function _countBallot(
+        VotingServiceStorage.RankedTally storage tally,
+        euint32[] storage ranking,
+        uint32 weight,
+        uint8 optionCount,
+        euint32 zero
+    ) private {
+        ebool[] memory gets = new ebool[](optionCount);
+        ebool unplaced = FHE.asEbool(true);
+        for (uint256 r = 0; r < ranking.length; r++) {
+            ebool continuing = FHE.asEbool(false);
+            for (uint8 o = 0; o < optionCount; o++) {
+                if (tally.eliminated & (1 << o) != 0) {
+                    continue;
+                }
+                ebool matches = FHE.eq(ranking[r], uint32(o));
+                gets[o] = r == 0 ? matches : FHE.or(gets[o], FHE.and(matches, unplaced));
+                continuing = FHE.or(continuing, matches);
+            }
+            unplaced = FHE.and(unplaced, FHE.not(continuing));
+        }
+
+        euint32 encryptedWeight = FHE.asEuint32(weight);
+        for (uint8 o = 0; o < optionCount; o++) {
+            if (tally.eliminated & (1 << o) != 0) {
+                continue;
+            }
+            tally.counts[o] = FHE.add(tally.counts[o], FHE.select(gets[o], encryptedWeight, zero));
+            FHE.allowThis(tally.counts[o]);
+        }
+    }
+}
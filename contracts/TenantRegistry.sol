@@ -0,0 +1,87 @@
+pragma solidity ^0.8.24;
+
+/// @dev Registered poll namespaces for apps built on VotingService. A tenant owns every poll
+/// ID of the form "<name>/<id>"; only its admins can create polls in that namespace.
+contract TenantRegistry {
+    struct Tenant {
+        string name;
+        address[] admins;
+        mapping(address => bool) isAdmin;
+    }
+
+    mapping(bytes32 => Tenant) private tenants;
+    bytes32[] public tenantIds;
+
+    uint256 public constant MAX_NAME_LENGTH = 32;
+
+    event TenantRegistered(bytes32 indexed tenantId, string name, address indexed admin);
+    event TenantAdminAdded(bytes32 indexed tenantId, address indexed admin);
+    event TenantAdminRemoved(bytes32 indexed tenantId, address indexed admin);
+
+    modifier onlyTenantAdmin(bytes32 tenantId) {
+        require(bytes(tenants[tenantId].name).length > 0, "Tenant does not exist");
+        require(tenants[tenantId].isAdmin[msg.sender], "Not tenant admin");
+        _;
+    }
+
+    /// @dev The caller becomes the tenant's first admin. Names are first come, first served.
+    function registerTenant(string calldata name) external returns (bytes32 tenantId) {
+        bytes memory raw = bytes(name);
+        require(raw.length > 0 && raw.length <= MAX_NAME_LENGTH, "Invalid tenant name");
+        for (uint256 i = 0; i < raw.length; i++) {
+            require(raw[i] != "/", "Invalid tenant name");
+        }
+
+        tenantId = keccak256(raw);
+        require(bytes(tenants[tenantId].name).length == 0, "Tenant already registered");
+
+        Tenant storage tenant = tenants[tenantId];
+        tenant.name = name;
+        tenant.admins.push(msg.sender);
+        tenant.isAdmin[msg.sender] = true;
+        tenantIds.push(tenantId);
+
+        emit TenantRegistered(tenantId, name, msg.sender);
+    }
+
+    function addTenantAdmin(bytes32 tenantId, address admin) external onlyTenantAdmin(tenantId) {
+        require(admin != address(0), "Invalid admin");
+        require(!tenants[tenantId].isAdmin[admin], "Already tenant admin");
+
+        tenants[tenantId].admins.push(admin);
+        tenants[tenantId].isAdmin[admin] = true;
+
+        emit TenantAdminAdded(tenantId, admin);
+    }
+
+    /// @dev A tenant always keeps at least one admin, so its namespace can't be orphaned.
+    function removeTenantAdmin(bytes32 tenantId, address admin) external onlyTenantAdmin(tenantId) {
+        require(tenants[tenantId].isAdmin[admin], "Not tenant admin");
+
+        address[] storage admins = tenants[tenantId].admins;
+        require(admins.length > 1, "Cannot remove last admin");
+        for (uint256 i = 0; i < admins.length; i++) {
+            if (admins[i] == admin) {
+                admins[i] = admins[admins.length - 1];
+                admins.pop();
+                break;
+            }
+        }
+        tenants[tenantId].isAdmin[admin] = false;
+
+        emit TenantAdminRemoved(tenantId, admin);
+    }
+
+    function isTenantAdmin(bytes32 tenantId, address account) external view returns (bool) {
+        return tenants[tenantId].isAdmin[account];
+    }
+
+    function getTenant(bytes32 tenantId) external view returns (string memory name, address[] memory admins) {
+        require(bytes(tenants[tenantId].name).length > 0, "Tenant does not exist");
+        return (tenants[tenantId].name, tenants[tenantId].admins);
+    }
+
+    function getTenantCount() external view returns (uint256) {
+        return tenantIds.length;
+    }
+}
@@ -1,165 +1,707 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, euint64, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { RankedChoiceCounting } from "./RankedChoiceCounting.sol";
+import { TenantRegistry } from "./TenantRegistry.sol";
+import { VotingServiceAdmin } from "./VotingServiceAdmin.sol";
+import { VotingServiceStorage } from "./VotingServiceStorage.sol";
 
-contract VotingService is ZamaEthereumConfig {
-    struct Vote {
-        euint32 encryptedVote;
-        address voter;
-        uint256 timestamp;
-        uint32 decryptedVote;
-        bool isVerified;
-    }
-
-    struct Poll {
-        string pollId;
-        string question;
-        uint256 endTime;
-        uint32 totalVotes;
-        bool isActive;
-        mapping(address => bool) hasVoted;
-    }
+interface IERC721 {
+    function ownerOf(uint256 tokenId) external view returns (address);
+}
 
-    mapping(string => Poll) public polls;
-    mapping(string => Vote[]) public pollVotes;
-    string[] public pollIds;
+/// @dev Deployed behind VotingServiceProxy, which calls `initialize` (implemented by the admin
+/// module) on creation. Immutables live in the implementation's code, so changing the registry
+/// or the admin module means upgrading to a new implementation.
+contract VotingService is VotingServiceStorage, ZamaEthereumConfig {
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant BALLOT_TYPEHASH =
+        keccak256("Ballot(bytes32 pollId,bytes32 encryptedVote,bytes inputProof,uint256 nonce,uint256 deadline)");
 
-    event PollCreated(string indexed pollId, address indexed creator);
-    event VoteCast(string indexed pollId, address indexed voter);
-    event VoteDecrypted(string indexed pollId, uint32 voteValue);
-    event PollClosed(string indexed pollId, uint32 totalVotes);
+    VotingServiceAdmin public immutable adminModule;
 
-    modifier onlyPollOwner(string calldata pollId) {
-        require(msg.sender == polls[pollId].owner, "Not poll owner");
-        _;
+    constructor(
+        TenantRegistry registry,
+        VotingServiceAdmin admin
+    ) VotingServiceStorage(registry) ZamaEthereumConfig() {
+        adminModule = admin;
     }
 
-    constructor() ZamaEthereumConfig() {}
-
+    /// @dev The poll is identified by keccak256(slug) from here on; the slug is kept only for
+    /// display and for its "<tenant>/" namespace.
     function createPoll(
-        string calldata pollId,
+        string calldata slug,
         string calldata question,
-        uint256 duration
-    ) external {
-        require(bytes(polls[pollId].question).length == 0, "Poll already exists");
-        polls[pollId] = Poll({
-            pollId: pollId,
-            question: question,
-            endTime: block.timestamp + duration,
-            totalVotes: 0,
-            isActive: true
-        });
+        PollConfig calldata config,
+        PollMetadata calldata metadata
+    ) external returns (bytes32 pollId) {
+        pollId = keccak256(bytes(slug));
+        require(bytes(question).length > 0, "Empty question");
+        require(polls[pollId].creator == address(0), "Poll already exists");
+        require(config.optionCount >= 2 && config.optionCount <= MAX_OPTIONS, "Invalid option count");
+        require(config.startTime == 0 || config.startTime >= block.timestamp, "Start time in the past");
+        // Bounded so the window fits the packed uint64 fields
+        require(
+            config.duration > 0 && config.duration <= type(uint32).max && config.startTime <= type(uint32).max,
+            "Invalid duration"
+        );
+        require(
+            config.pollType != PollType.RankedChoice || config.optionCount <= MAX_RANKED_OPTIONS,
+            "Too many ranked options"
+        );
+        require(config.weightToken == address(0) || config.weightUnit > 0, "Invalid weight unit");
+        require(config.approvalBps <= BPS_DENOMINATOR, "Invalid approval threshold");
+        require(
+            config.pollType == PollType.Plurality || (config.quorum == 0 && config.approvalBps == 0 && !config.hideCounts),
+            "Outcome rules need a plurality poll"
+        );
+        require(!config.hideCounts || config.quorum > 0 || config.approvalBps > 0, "Hidden counts need outcome rules");
+        require(
+            config.eligibilityNft == address(0) ||
+                (config.pollType == PollType.Plurality &&
+                    config.eligibilityRoot == bytes32(0) &&
+                    config.weightToken == address(0)),
+            "NFT polls are unweighted plurality polls"
+        );
+        require(
+            config.confidentialToken == address(0) ||
+                (config.pollType == PollType.Plurality &&
+                    config.weightToken == address(0) &&
+                    config.eligibilityNft == address(0)),
+            "Token-gated polls need a plain plurality poll"
+        );
+        require(
+            config.confidentialToken == address(0) || config.confidentialMinBalance > 0,
+            "Invalid minimum balance"
+        );
+        require(
+            metadata.options.length == config.optionCount ||
+                (metadata.options.length == 0 && metadata.contentHash != bytes32(0)),
+            "Options need a label each or a content hash"
+        );
+        require(metadata.schemaVersion > 0, "Invalid schema version");
+
+        bytes32 tenantId = _tenantIdOf(slug);
+        require(tenantId == bytes32(0) || tenantRegistry.isTenantAdmin(tenantId, msg.sender), "Not tenant admin");
+
+        Poll storage poll = polls[pollId];
+        poll.slug = slug;
+        poll.question = question;
+        poll.owner = msg.sender;
+        poll.creator = msg.sender;
+        poll.tenantId = tenantId;
+        poll.startTime = uint64(config.startTime == 0 ? block.timestamp : config.startTime);
+        poll.endTime = poll.startTime + uint64(config.duration);
+        poll.pollType = config.pollType;
+        poll.optionCount = config.optionCount;
+        poll.status = PollStatus.Scheduled;
+        poll.voterCanDecrypt = config.voterCanDecrypt;
+        poll.allowRevote = config.allowRevote;
+        poll.quorum = config.quorum;
+        poll.approvalBps = config.approvalBps;
+        poll.hideCounts = config.hideCounts;
+        poll.eligibilityRoot = config.eligibilityRoot;
+        poll.weightToken = config.weightToken;
+        poll.weightSnapshotId = config.weightSnapshotId;
+        poll.weightUnit = config.weightUnit;
+        poll.eligibilityNft = config.eligibilityNft;
+        poll.confidentialToken = config.confidentialToken;
+        poll.confidentialMinBalance = config.confidentialMinBalance;
+        poll.confidentialWeightUnit = config.confidentialWeightUnit;
+        pollMetadata[pollId] = metadata;
+
+        euint32 zero = FHE.asEuint32(0);
+        FHE.allowThis(zero);
+        if (config.pollType == PollType.Plurality) {
+            for (uint8 i = 0; i < config.optionCount; i++) {
+                pollTallies[pollId].push(zero);
+            }
+        }
+        poll.invalidBallots = zero;
+
         pollIds.push(pollId);
-        emit PollCreated(pollId, msg.sender);
+        if (tenantId != bytes32(0)) {
+            tenantPollIds[tenantId].push(pollId);
+        }
+        emit PollCreatedV3(
+            pollId,
+            tenantId,
+            msg.sender,
+            slug,
+            msg.sender,
+            config.pollType,
+            config.optionCount,
+            poll.startTime,
+            poll.endTime
+        );
+    }
+
+    function castVote(
+        bytes32 pollId,
+        externalEuint32 encryptedVote,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        _castVote(pollId, msg.sender, encryptedVote, inputProof, eligibilityProof);
     }
 
+    /// @dev Ballot of one token in a one-vote-per-NFT poll. Ballots are tracked by token ID, so
+    /// a token that changes hands can't vote twice; where re-voting is allowed, the token's
+    /// current owner replaces its ballot.
     function castVote(
-        string calldata pollId,
+        bytes32 pollId,
+        uint256 tokenId,
         externalEuint32 encryptedVote,
         bytes calldata inputProof
     ) external {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
-        require(block.timestamp < polls[pollId].endTime, "Voting period ended");
-        require(!polls[pollId].hasVoted[msg.sender], "Already voted");
+        _requirePollExists(pollId);
+        Poll storage poll = polls[pollId];
+        require(poll.eligibilityNft != address(0), "Not an NFT poll");
+        require(IERC721(poll.eligibilityNft).ownerOf(tokenId) == msg.sender, "Not token owner");
 
-        require(FHE.isInitialized(FHE.fromExternal(encryptedVote, inputProof)), "Invalid encrypted vote");
+        poll.tokenBallotIndex[tokenId] = _recordBallot(
+            pollId,
+            msg.sender,
+            poll.tokenBallotIndex[tokenId],
+            encryptedVote,
+            inputProof
+        );
+    }
 
-        Vote memory newVote = Vote({
-            encryptedVote: FHE.fromExternal(encryptedVote, inputProof),
-            voter: msg.sender,
-            timestamp: block.timestamp,
-            decryptedVote: 0,
-            isVerified: false
-        });
+    /// @dev Relayed version of castVote: the ballot is cast for the address that signed the
+    /// EIP-712 `Ballot`, and anyone may submit it. The input proof is checked against the
+    /// submitting account, so the voter encrypts their choice for the relayer's address.
+    function castVoteBySig(
+        bytes32 pollId,
+        externalEuint32 encryptedVote,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof,
+        address voter,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "Signature expired");
 
-        FHE.allowThis(newVote.encryptedVote);
-        FHE.makePubliclyDecryptable(newVote.encryptedVote);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                BALLOT_TYPEHASH,
+                pollId,
+                externalEuint32.unwrap(encryptedVote),
+                keccak256(inputProof),
+                nonces[voter]++,
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        require(voter != address(0) && _recoverSigner(digest, signature) == voter, "Invalid signature");
 
-        pollVotes[pollId].push(newVote);
-        polls[pollId].hasVoted[msg.sender] = true;
-        polls[pollId].totalVotes++;
+        _castVote(pollId, voter, encryptedVote, inputProof, eligibilityProof);
+        emit BallotRelayed(pollId, _pollTenant(pollId), voter, msg.sender);
+    }
+
+    function verifyTallies(
+        bytes32 pollId,
+        bytes memory abiEncodedClearTallies,
+        bytes memory decryptionProof
+    ) external {
+        bytes32[] memory cts = _verifiableTallyHandles(pollId);
 
-        emit VoteCast(pollId, msg.sender);
+        FHE.checkSignatures(cts, abiEncodedClearTallies, decryptionProof);
+
+        _storeVerifiedTallies(
+            pollId,
+            _decodeUint32List(abiEncodedClearTallies, cts.length),
+            keccak256(decryptionProof)
+        );
     }
 
-    function verifyVote(
-        string calldata pollId,
-        uint256 voteIndex,
-        bytes memory abiEncodedClearVote,
+    /// @dev Verifies the tallies of several closed polls against one KMS proof. The clear
+    /// values are the polls' tally handles concatenated in list order, as returned by
+    /// publicDecrypt for that handle list. All polls are recorded or none are.
+    function verifyTalliesBatch(
+        bytes32[] calldata batchPollIds,
+        bytes memory abiEncodedClearTallies,
         bytes memory decryptionProof
     ) external {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
-        require(voteIndex < pollVotes[pollId].length, "Invalid vote index");
-        require(!pollVotes[pollId][voteIndex].isVerified, "Vote already verified");
+        require(batchPollIds.length > 0, "No polls given");
+
+        bytes32[][] memory pollHandles = new bytes32[][](batchPollIds.length);
+        uint256 handleCount;
+        for (uint256 i = 0; i < batchPollIds.length; i++) {
+            pollHandles[i] = _verifiableTallyHandles(batchPollIds[i]);
+            handleCount += pollHandles[i].length;
+        }
+
+        bytes32[] memory cts = new bytes32[](handleCount);
+        uint256 offset;
+        for (uint256 i = 0; i < pollHandles.length; i++) {
+            for (uint256 j = 0; j < pollHandles[i].length; j++) {
+                cts[offset++] = pollHandles[i][j];
+            }
+        }
+
+        FHE.checkSignatures(cts, abiEncodedClearTallies, decryptionProof);
+
+        uint32[] memory decoded = _decodeUint32List(abiEncodedClearTallies, handleCount);
+        bytes32 proofHash = keccak256(decryptionProof);
+        offset = 0;
+        for (uint256 i = 0; i < batchPollIds.length; i++) {
+            uint32[] memory tallies = new uint32[](pollHandles[i].length);
+            for (uint256 j = 0; j < tallies.length; j++) {
+                tallies[j] = decoded[offset++];
+            }
+            _storeVerifiedTallies(batchPollIds[i], tallies, proofHash);
+        }
+
+        emit TalliesBatchVerified(batchPollIds.length, handleCount);
+    }
+
+    /// @dev Finalizes a poll once its voting window is over. This is the only place where
+    /// tallies are made publicly decryptable, so no partial result can leak before endTime.
+    function closePoll(bytes32 pollId) external onlyPollAdmin(pollId) {
+        PollStatus status = _pollStatus(pollId);
+        require(status != PollStatus.Closed, "Poll already closed");
+        require(status != PollStatus.Cancelled, "Poll cancelled");
+        require(status == PollStatus.Ended, "Voting still in progress");
+
+        polls[pollId].status = PollStatus.Closed;
+        emit PollClosedV3(
+            pollId,
+            _pollTenant(pollId),
+            msg.sender,
+            polls[pollId].totalVotes,
+            polls[pollId].endTime,
+            block.timestamp
+        );
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(pollVotes[pollId][voteIndex].encryptedVote);
+        if (polls[pollId].pollType != PollType.Plurality) {
+            return;
+        }
+        if (_hasOutcomeRules(pollId)) {
+            _releaseOutcome(pollId);
+        }
+        if (!polls[pollId].hideCounts) {
+            _releaseTallies(pollId);
+        }
+    }
 
-        FHE.checkSignatures(cts, abiEncodedClearVote, decryptionProof);
+    /// @dev Counts up to `maxBallots` ranked ballots towards the current instant-runoff round.
+    /// Once every ballot is counted the round's totals are made publicly decryptable. A full
+    /// 8-option ballot takes over half the per-transaction HCU limit, so count those one at a time.
+    function tallyRankedRound(bytes32 pollId, uint256 maxBallots) external {
+        _requirePollExists(pollId);
+        require(polls[pollId].pollType == PollType.RankedChoice, "Not a ranked-choice poll");
+        require(polls[pollId].status == PollStatus.Closed, "Poll not closed");
 
-        uint32 decodedVote = abi.decode(abiEncodedClearVote, (uint32));
-        pollVotes[pollId][voteIndex].decryptedVote = decodedVote;
-        pollVotes[pollId][voteIndex].isVerified = true;
+        RankedTally storage tally = rankedTallies[pollId];
+        require(!tally.finished, "Count already finished");
+        require(!tally.roundReady, "Round awaiting results");
 
-        emit VoteDecrypted(pollId, decodedVote);
+        bool roundReady = RankedChoiceCounting.countBallots(
+            tally,
+            pollVotes[pollId],
+            polls[pollId].optionCount,
+            maxBallots
+        );
+        if (roundReady) {
+            bytes32[] memory handles = _rankedRoundHandles(pollId);
+            emit RankedRoundTallied(pollId, _pollTenant(pollId), tally.round, handles);
+        }
     }
 
-    function closePoll(string calldata pollId) external onlyPollOwner(pollId) {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
-        require(block.timestamp >= polls[pollId].endTime, "Voting still in progress");
-        require(polls[pollId].isActive, "Poll already closed");
+    /// @dev Records the decrypted totals of the current round and either ends the count or
+    /// eliminates the trailing option; see RankedChoiceCounting.completeRound.
+    function submitRankedRound(
+        bytes32 pollId,
+        bytes memory abiEncodedClearCounts,
+        bytes memory decryptionProof
+    ) external {
+        _requirePollExists(pollId);
+        RankedTally storage tally = rankedTallies[pollId];
+        require(tally.roundReady, "Round not tallied");
+
+        bytes32[] memory cts = _rankedRoundHandles(pollId);
+        FHE.checkSignatures(cts, abiEncodedClearCounts, decryptionProof);
 
-        polls[pollId].isActive = false;
-        emit PollClosed(pollId, polls[pollId].totalVotes);
+        uint8 optionCount = polls[pollId].optionCount;
+        uint32[] memory counts = _decodeUint32List(abiEncodedClearCounts, optionCount);
+        rankedRoundResults[pollId].push(counts);
+
+        uint256 round = tally.round;
+        (bool finished, uint8 option) = RankedChoiceCounting.completeRound(tally, counts, optionCount);
+        if (finished) {
+            emit RankedChoiceWinner(pollId, _pollTenant(pollId), round, option);
+        } else {
+            emit RankedRoundCompleted(pollId, _pollTenant(pollId), round, counts, option);
+        }
     }
 
-    function getPollDetails(string calldata pollId) external view returns (
+    function getPollDetails(bytes32 pollId) external view returns (
         string memory question,
+        uint256 startTime,
         uint256 endTime,
+        uint8 optionCount,
         uint32 totalVotes,
-        bool isActive
+        PollStatus status,
+        EligibilityMode eligibilityMode
     ) {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
+        _requirePollExists(pollId);
+        Poll storage poll = polls[pollId];
+        if (poll.eligibilityNft != address(0)) {
+            eligibilityMode = EligibilityMode.Nft;
+        } else if (poll.eligibilityRoot != bytes32(0)) {
+            eligibilityMode = EligibilityMode.Allowlist;
+        }
         return (
-            polls[pollId].question,
-            polls[pollId].endTime,
-            polls[pollId].totalVotes,
-            polls[pollId].isActive
+            poll.question,
+            poll.startTime,
+            poll.endTime,
+            poll.optionCount,
+            poll.totalVotes,
+            _pollStatus(pollId),
+            eligibilityMode
+        );
+    }
+
+    function getPollCount() external view returns (uint256) {
+        return pollIds.length;
+    }
+
+    function getPollTenant(bytes32 pollId) external view returns (bytes32) {
+        _requirePollExists(pollId);
+        return polls[pollId].tenantId;
+    }
+
+    function getTenantPollCount(bytes32 tenantId) external view returns (uint256) {
+        return tenantPollIds[tenantId].length;
+    }
+
+    function getPollCreator(bytes32 pollId) external view returns (address) {
+        _requirePollExists(pollId);
+        return polls[pollId].creator;
+    }
+
+    /// @dev Poll administration and most views live in VotingServiceAdmin to keep this contract
+    /// under the code size limit. Its functions run here, against this contract's storage.
+    fallback() external {
+        address module = address(adminModule);
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+
+    /// @dev Computed per call rather than cached so it follows the chain ID after a fork.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                EIP712_DOMAIN_TYPEHASH,
+                keccak256("VotingService"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
         );
     }
 
-    function getVote(string calldata pollId, uint256 voteIndex) external view returns (
-        euint32 encryptedVote,
+    function _castVote(
+        bytes32 pollId,
         address voter,
-        uint256 timestamp,
-        uint32 decryptedVote,
-        bool isVerified
-    ) {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
-        require(voteIndex < pollVotes[pollId].length, "Invalid vote index");
-        Vote memory vote = pollVotes[pollId][voteIndex];
-        return (
-            vote.encryptedVote,
-            vote.voter,
-            vote.timestamp,
-            vote.decryptedVote,
-            vote.isVerified
+        externalEuint32 encryptedVote,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) private {
+        _requirePollExists(pollId);
+        Poll storage poll = polls[pollId];
+        require(poll.eligibilityNft == address(0), "Vote with a token ID");
+        require(_isEligible(pollId, voter, eligibilityProof), "Not eligible");
+
+        // Voting directly overrides a delegation
+        if (pollDelegations[pollId].delegateOf[voter] != address(0)) {
+            _withdrawDelegation(pollId, voter);
+        }
+
+        poll.ballotIndex[voter] = _recordBallot(pollId, voter, poll.ballotIndex[voter], encryptedVote, inputProof);
+        poll.hasVoted[voter] = true;
+    }
+
+    /// @dev Shared by address and token ballots. `index` is the position of the ballot being
+    /// replaced in pollVotes plus one, or zero for a first vote; returns the same for the
+    /// stored ballot.
+    function _recordBallot(
+        bytes32 pollId,
+        address voter,
+        uint256 index,
+        externalEuint32 encryptedVote,
+        bytes calldata inputProof
+    ) private returns (uint256) {
+        require(polls[pollId].pollType == PollType.Plurality, "Not a plurality poll");
+        _requireVotingOpen(pollId);
+        require(index == 0 || polls[pollId].allowRevote, "Already voted");
+
+        uint32 weight = _votingWeight(pollId, voter);
+        euint32 received = pollDelegations[pollId].receivedWeight[voter];
+        bool isDelegate = FHE.isInitialized(received);
+        require(weight > 0 || isDelegate || polls[pollId].confidentialToken != address(0), "No voting weight");
+
+        euint32 ballot = FHE.fromExternal(encryptedVote, inputProof);
+        require(FHE.isInitialized(ballot), "Invalid encrypted vote");
+
+        Vote memory newVote = Vote({
+            encryptedVote: ballot,
+            voter: voter,
+            timestamp: uint64(block.timestamp),
+            weight: weight
+        });
+
+        // Clamp out-of-range choices to optionCount, which matches no option. Done for every
+        // ballot, so nothing on-chain shows whether this one was valid.
+        uint32 optionCount = polls[pollId].optionCount;
+        newVote.encryptedVote = FHE.select(
+            FHE.lt(newVote.encryptedVote, optionCount),
+            newVote.encryptedVote,
+            FHE.asEuint32(optionCount)
         );
+
+        FHE.allowThis(newVote.encryptedVote);
+        if (polls[pollId].voterCanDecrypt) {
+            FHE.allow(newVote.encryptedVote, voter);
+        }
+
+        // Weight delegated to the voter follows their ballot
+        if (isDelegate) {
+            _shiftTally(pollId, newVote.encryptedVote, received, true);
+        }
+        if (polls[pollId].confidentialToken != address(0)) {
+            _countConfidentialWeight(pollId, voter, index, newVote.encryptedVote);
+        }
+
+        if (index != 0) {
+            Vote storage previous = pollVotes[pollId][index - 1];
+            _updateTotalWeight(pollId, previous.weight, weight);
+            if (isDelegate) {
+                _shiftTally(pollId, previous.encryptedVote, received, false);
+            }
+            _replaceInTally(pollId, previous.encryptedVote, previous.weight, newVote.encryptedVote, weight);
+            pollVotes[pollId][index - 1] = newVote;
+
+            _emitVoteCast(pollId, index - 1, true);
+            return index;
+        }
+
+        _updateTotalWeight(pollId, 0, weight);
+        _addToTally(pollId, newVote.encryptedVote, weight);
+
+        pollVotes[pollId].push(newVote);
+        polls[pollId].totalVotes++;
+
+        _emitVoteCast(pollId, pollVotes[pollId].length - 1, false);
+        return pollVotes[pollId].length;
+    }
+
+    /// @dev Slugs of the form "<tenant>/<id>" belong to that registered tenant; slugs without
+    /// a slash live in the shared namespace, tenant ID zero.
+    function _tenantIdOf(string calldata slug) private pure returns (bytes32) {
+        bytes calldata raw = bytes(slug);
+        for (uint256 i = 0; i < raw.length; i++) {
+            if (raw[i] == "/") {
+                return keccak256(raw[:i]);
+            }
+        }
+        return bytes32(0);
     }
 
-    function getAllPollIds() external view returns (string[] memory) {
-        return pollIds;
+    /// @dev The ballot is an encrypted option index. Every counter is touched so the
+    /// chosen option cannot be inferred from which handles changed; a clamped ballot
+    /// matches no option and is added to the invalid-ballot count instead.
+    function _addToTally(bytes32 pollId, euint32 ballot, uint32 weight) private {
+        euint32[] storage tallies = pollTallies[pollId];
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        for (uint8 i = 0; i < tallies.length; i++) {
+            tallies[i] = FHE.add(tallies[i], _weightedMatch(ballot, i, weight, one, zero));
+            FHE.allowThis(tallies[i]);
+        }
+
+        Poll storage poll = polls[pollId];
+        poll.invalidBallots = FHE.add(poll.invalidBallots, _invalidMatch(ballot, poll.optionCount));
+        FHE.allowThis(poll.invalidBallots);
     }
 
-    function getPollVotes(string calldata pollId) external view returns (Vote[] memory) {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
-        return pollVotes[pollId];
+    /// @dev Subtracts the previous ballot's contribution and adds the new one on every
+    /// counter, so neither choice is revealed by the update.
+    function _replaceInTally(
+        bytes32 pollId,
+        euint32 previous,
+        uint32 previousWeight,
+        euint32 ballot,
+        uint32 weight
+    ) private {
+        euint32[] storage tallies = pollTallies[pollId];
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        for (uint8 i = 0; i < tallies.length; i++) {
+            euint32 withdrawn = _weightedMatch(previous, i, previousWeight, one, zero);
+            tallies[i] = FHE.add(FHE.sub(tallies[i], withdrawn), _weightedMatch(ballot, i, weight, one, zero));
+            FHE.allowThis(tallies[i]);
+        }
+
+        Poll storage poll = polls[pollId];
+        poll.invalidBallots = FHE.add(
+            FHE.sub(poll.invalidBallots, _invalidMatch(previous, poll.optionCount)),
+            _invalidMatch(ballot, poll.optionCount)
+        );
+        FHE.allowThis(poll.invalidBallots);
     }
 
-    function hasVoted(string calldata pollId, address voter) external view returns (bool) {
-        require(bytes(polls[pollId].question).length > 0, "Poll does not exist");
-        return polls[pollId].hasVoted[voter];
+    function _weightedMatch(
+        euint32 ballot,
+        uint8 option,
+        uint32 weight,
+        euint32 one,
+        euint32 zero
+    ) private returns (euint32 increment) {
+        increment = FHE.select(FHE.eq(ballot, uint32(option)), one, zero);
+        if (weight != 1) {
+            increment = FHE.mul(increment, weight);
+        }
     }
-}
 
+    /// @dev Ballots are clamped before they are stored, so an invalid one equals optionCount.
+    function _invalidMatch(euint32 ballot, uint8 optionCount) private returns (euint32) {
+        return FHE.asEuint32(FHE.eq(ballot, uint32(optionCount)));
+    }
+
+    /// @dev The current round's option totals. Only these are released: the count of invalid
+    /// rankings stays encrypted, as instant-runoff reveals just the rounds and the winner.
+    function _rankedRoundHandles(bytes32 pollId) private view returns (bytes32[] memory handles) {
+        euint32[] storage counts = rankedTallies[pollId].counts;
+        handles = new bytes32[](counts.length);
+        for (uint256 o = 0; o < counts.length; o++) {
+            handles[o] = FHE.toBytes32(counts[o]);
+        }
+    }
+
+    /// @dev The released handles are the option tallies followed by the invalid-ballot count,
+    /// the same list verifyTallies checks.
+    function _releaseTallies(bytes32 pollId) private {
+        bytes32[] memory handles = _tallyHandles(pollId);
+        for (uint256 i = 0; i < handles.length; i++) {
+            FHE.makePubliclyDecryptable(euint32.wrap(handles[i]));
+        }
+        emit TalliesReleased(pollId, _pollTenant(pollId), handles);
+    }
+
+    /// @dev Option 0 is the approving option. Quorum is a number of valid ballots, each counting
+    /// once whatever its weight, and approval is option 0's share of the total counted weight.
+    /// Both are evaluated under encryption; only the two resulting booleans are made publicly
+    /// decryptable.
+    function _releaseOutcome(bytes32 pollId) private {
+        euint32[] storage tallies = pollTallies[pollId];
+        euint64 total = FHE.asEuint64(0);
+        for (uint256 i = 0; i < tallies.length; i++) {
+            total = FHE.add(total, FHE.asEuint64(tallies[i]));
+        }
+
+        Poll storage poll = polls[pollId];
+        euint32 validBallots = FHE.sub(FHE.asEuint32(poll.totalVotes), poll.invalidBallots);
+        ebool quorumMet = FHE.ge(validBallots, poll.quorum);
+        // Same value as quorumMet when there is no approval threshold, but never the same
+        // handle: a decryption proof can't list one handle twice
+        ebool passed = FHE.and(quorumMet, FHE.gt(total, uint64(0)));
+        uint16 approvalBps = poll.approvalBps;
+        if (approvalBps > 0) {
+            euint64 approving = FHE.asEuint64(tallies[0]);
+            ebool approved = FHE.ge(FHE.mul(approving, uint64(BPS_DENOMINATOR)), FHE.mul(total, uint64(approvalBps)));
+            passed = FHE.and(passed, FHE.and(approved, FHE.gt(approving, uint64(0))));
+        }
+
+        FHE.allowThis(quorumMet);
+        FHE.allowThis(passed);
+        FHE.makePubliclyDecryptable(quorumMet);
+        FHE.makePubliclyDecryptable(passed);
+        poll.encryptedQuorumMet = quorumMet;
+        poll.encryptedPassed = passed;
+
+        emit OutcomeReleased(pollId, _pollTenant(pollId), FHE.toBytes32(quorumMet), FHE.toBytes32(passed));
+    }
+
+    function _verifiableTallyHandles(bytes32 pollId) private view returns (bytes32[] memory cts) {
+        _requirePollExists(pollId);
+        require(polls[pollId].pollType == PollType.Plurality, "Not a plurality poll");
+        require(!polls[pollId].hideCounts, "Tallies are private");
+        require(polls[pollId].status == PollStatus.Closed, "Poll not closed");
+        return _tallyHandles(pollId);
+    }
+
+    function _tallyHandles(bytes32 pollId) private view returns (bytes32[] memory handles) {
+        euint32[] storage tallies = pollTallies[pollId];
+        handles = new bytes32[](tallies.length + 1);
+        for (uint256 i = 0; i < tallies.length; i++) {
+            handles[i] = FHE.toBytes32(tallies[i]);
+        }
+        handles[tallies.length] = FHE.toBytes32(polls[pollId].invalidBallots);
+    }
+
+    /// @dev `values` holds the option tallies followed by the invalid-ballot count. The
+    /// verified flag is checked here rather than when collecting handles so a poll listed
+    /// twice in one batch reverts the whole batch. Also writes the poll's result record, which
+    /// nothing can change afterwards.
+    function _storeVerifiedTallies(bytes32 pollId, uint32[] memory values, bytes32 proofHash) private {
+        require(!polls[pollId].talliesVerified, "Tallies already verified");
+
+        uint256 optionCount = values.length - 1;
+        uint32 invalidBallots = values[optionCount];
+        assembly ("memory-safe") {
+            mstore(values, optionCount)
+        }
+        pollResults[pollId] = values;
+        polls[pollId].invalidBallotCount = invalidBallots;
+        polls[pollId].talliesVerified = true;
+
+        // The ballot root is built afterwards, in as many steps as needed, by finalizeBallotRoot
+        resultRecords[pollId] = ResultRecord(proofHash, block.number, bytes32(0), pollVotes[pollId].length);
+
+        emit TalliesDecryptedV3(
+            pollId,
+            _pollTenant(pollId),
+            values,
+            invalidBallots,
+            polls[pollId].totalVotes
+        );
+    }
+
+    /// @dev Accepts 65-byte (r, s, v) signatures only, and rejects high-s values so a
+    /// signature cannot be replayed in its malleable form.
+    function _recoverSigner(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        require(signature.length == 65, "Invalid signature length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        require(uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0, "Invalid signature");
+        return ecrecover(digest, v, r, s);
+    }
+
+    /// @dev Public decryption encodes each cleartext as its own 32-byte word, in handle order.
+    function _decodeUint32List(bytes memory encoded, uint256 count) private pure returns (uint32[] memory values) {
+        require(encoded.length == count * 32, "Invalid cleartext length");
+        values = new uint32[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 word;
+            assembly ("memory-safe") {
+                word := mload(add(encoded, mul(add(i, 1), 32)))
+            }
+            values[i] = uint32(word);
+        }
+    }
+}
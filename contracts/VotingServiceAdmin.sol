@@ -0,0 +1,527 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { Initializable } from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import { ConfidentialWeighting } from "./ConfidentialWeighting.sol";
+import { RankedChoiceCounting } from "./RankedChoiceCounting.sol";
+import { TenantRegistry } from "./TenantRegistry.sol";
+import { VotingServiceStorage } from "./VotingServiceStorage.sol";
+
+/// @dev Poll administration, delegation and plain storage views for VotingService. Not meant to
+/// be called directly: VotingService forwards the calls it doesn't implement itself here
+/// through delegatecall, so these functions run against the service's storage and emit from
+/// the service's address.
+contract VotingServiceAdmin is VotingServiceStorage, Initializable {
+    constructor(TenantRegistry registry) VotingServiceStorage(registry) {
+        _disableInitializers();
+    }
+
+    /// @dev Run once by VotingServiceProxy on creation. VotingService's constructor only
+    /// configures the coprocessor in the implementation's own storage; this does it for the proxy.
+    function initialize() external initializer {
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+    }
+
+    function transferPollOwnership(bytes32 pollId, address newOwner) external onlyPollOwner(pollId) {
+        require(newOwner != address(0), "Invalid owner");
+        require(newOwner != polls[pollId].owner, "Already poll owner");
+
+        address previousOwner = polls[pollId].owner;
+        if (polls[pollId].isCoOwner[newOwner]) {
+            _removeCoOwner(pollId, newOwner);
+        }
+        polls[pollId].owner = newOwner;
+
+        emit PollOwnershipTransferred(pollId, _pollTenant(pollId), previousOwner, newOwner);
+    }
+
+    function addCoOwner(bytes32 pollId, address coOwner) external onlyPollOwner(pollId) {
+        require(coOwner != address(0), "Invalid co-owner");
+        require(coOwner != polls[pollId].owner, "Already poll owner");
+        require(!polls[pollId].isCoOwner[coOwner], "Already co-owner");
+
+        polls[pollId].isCoOwner[coOwner] = true;
+        pollCoOwners[pollId].push(coOwner);
+
+        emit CoOwnerAdded(pollId, _pollTenant(pollId), coOwner);
+    }
+
+    function removeCoOwner(bytes32 pollId, address coOwner) external onlyPollOwner(pollId) {
+        require(polls[pollId].isCoOwner[coOwner], "Not co-owner");
+        _removeCoOwner(pollId, coOwner);
+    }
+
+    function extendPoll(bytes32 pollId, uint256 newEndTime) external onlyPollAdmin(pollId) {
+        PollStatus status = _pollStatus(pollId);
+        require(status == PollStatus.Scheduled || status == PollStatus.Active, "Poll not open");
+        require(newEndTime > polls[pollId].endTime, "End time not extended");
+        require(newEndTime <= type(uint64).max, "Invalid end time");
+
+        uint256 previousEndTime = polls[pollId].endTime;
+        polls[pollId].endTime = uint64(newEndTime);
+
+        emit PollExtended(pollId, _pollTenant(pollId), previousEndTime, newEndTime);
+    }
+
+    /// @dev Voids a poll that has not been closed yet. Its tallies are never released.
+    function cancelPoll(bytes32 pollId, string calldata reason) external onlyPollAdmin(pollId) {
+        require(bytes(reason).length > 0, "Empty reason");
+        PollStatus status = _pollStatus(pollId);
+        require(status != PollStatus.Closed, "Poll already closed");
+        require(status != PollStatus.Cancelled, "Poll cancelled");
+
+        polls[pollId].status = PollStatus.Cancelled;
+        polls[pollId].cancelReason = reason;
+
+        emit PollCancelled(pollId, _pollTenant(pollId), reason);
+    }
+
+    function setEligibilityRoot(bytes32 pollId, bytes32 newRoot) external onlyPollAdmin(pollId) {
+        require(_pollStatus(pollId) == PollStatus.Scheduled, "Poll already started");
+        require(polls[pollId].eligibilityNft == address(0), "Poll uses NFT eligibility");
+
+        bytes32 previousRoot = polls[pollId].eligibilityRoot;
+        polls[pollId].eligibilityRoot = newRoot;
+
+        emit EligibilityRootUpdated(pollId, _pollTenant(pollId), previousRoot, newRoot);
+    }
+
+    function verifyOutcome(
+        bytes32 pollId,
+        bytes memory abiEncodedClearOutcome,
+        bytes memory decryptionProof
+    ) external {
+        _requirePollExists(pollId);
+        require(polls[pollId].status == PollStatus.Closed, "Poll not closed");
+        require(_hasOutcomeRules(pollId), "Poll has no outcome rules");
+        require(!polls[pollId].outcomeVerified, "Outcome already verified");
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(polls[pollId].encryptedQuorumMet);
+        cts[1] = FHE.toBytes32(polls[pollId].encryptedPassed);
+
+        FHE.checkSignatures(cts, abiEncodedClearOutcome, decryptionProof);
+
+        (bool quorumMet, bool passed) = abi.decode(abiEncodedClearOutcome, (bool, bool));
+        polls[pollId].quorumMet = quorumMet;
+        polls[pollId].passed = passed;
+        polls[pollId].outcomeVerified = true;
+
+        emit OutcomeDecrypted(pollId, _pollTenant(pollId), quorumMet, passed);
+    }
+
+    /// @dev Adds up to `maxBallots` more ballots to the result record's ballotRoot, so the root
+    /// of any number of ballots can be built over several transactions once the tallies are
+    /// verified. Anyone can call it; the call that takes in the last ballot writes the root
+    /// and emits PollFinalized. Returns whether the root is complete.
+    function finalizeBallotRoot(bytes32 pollId, uint256 maxBallots) external returns (bool) {
+        _requirePollExists(pollId);
+        require(polls[pollId].talliesVerified, "Tallies not verified");
+        require(maxBallots > 0, "Invalid ballot count");
+        BallotRootProgress storage progress = ballotRootProgress[pollId];
+        require(!progress.finalized, "Ballot root already finalized");
+
+        ResultRecord storage record = resultRecords[pollId];
+        uint256 count = record.ballotCount;
+        uint256 end = progress.processed + maxBallots > count ? count : progress.processed + maxBallots;
+        for (uint256 i = progress.processed; i < end; i++) {
+            Vote storage ballot = pollVotes[pollId][i];
+            bytes32 node = keccak256(
+                bytes.concat(keccak256(abi.encode(FHE.toBytes32(ballot.encryptedVote), ballot.voter)))
+            );
+            // Merge with the full subtrees to the left, as adding one to a binary counter
+            uint256 level;
+            for (uint256 position = i; position & 1 == 1; position >>= 1) {
+                node = _hashPair(progress.subtrees[level++], node);
+            }
+            progress.subtrees[level] = node;
+        }
+        progress.processed = end;
+        if (end < count) {
+            return false;
+        }
+
+        // An odd node at the end of a level is carried up unhashed, as in the SDK's
+        // buildBallotTree, so the root joins the full subtrees from the smallest up
+        bytes32 root;
+        for (uint256 level = 0; count >> level != 0; level++) {
+            if ((count >> level) & 1 == 1) {
+                root = root == bytes32(0) ? progress.subtrees[level] : _hashPair(progress.subtrees[level], root);
+            }
+        }
+        record.ballotRoot = root;
+        progress.finalized = true;
+
+        emit PollFinalized(pollId, _pollTenant(pollId), root, count, record.proofHash);
+        return true;
+    }
+
+    /// @dev `ranking[r]` is the encrypted option index the voter places at rank r, all
+    /// encrypted in one input so they share a single proof. The first preference is also
+    /// recorded as the ballot's `encryptedVote`. Malformed rankings are counted as invalid
+    /// ballots; see RankedChoiceCounting.storeRanking.
+    function castRankedVote(
+        bytes32 pollId,
+        externalEuint32[] calldata ranking,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        _requirePollExists(pollId);
+        require(polls[pollId].pollType == PollType.RankedChoice, "Not a ranked-choice poll");
+        _requireVotingOpen(pollId);
+        bool revote = polls[pollId].hasVoted[msg.sender];
+        require(!revote || polls[pollId].allowRevote, "Already voted");
+        require(_isEligible(pollId, msg.sender, eligibilityProof), "Not eligible");
+        require(ranking.length == polls[pollId].optionCount, "Ranking must cover every option");
+
+        uint32 weight = _votingWeight(pollId, msg.sender);
+        require(weight > 0, "No voting weight");
+
+        // Ranked ballots are only counted after the poll closes, so a re-vote simply
+        // overwrites the stored ranking.
+        RankedTally storage tally = rankedTallies[pollId];
+        uint256 index = revote ? polls[pollId].ballotIndex[msg.sender] - 1 : tally.ballots.length;
+        uint32 previousWeight = revote ? pollVotes[pollId][index].weight : 0;
+        RankedChoiceCounting.storeRanking(polls[pollId], tally, index, ranking, inputProof);
+
+        Vote memory newVote = Vote({
+            encryptedVote: tally.ballots[index][0],
+            voter: msg.sender,
+            timestamp: uint64(block.timestamp),
+            weight: weight
+        });
+
+        _updateTotalWeight(pollId, previousWeight, weight);
+        if (revote) {
+            pollVotes[pollId][index] = newVote;
+            _emitVoteCast(pollId, index, true);
+            return;
+        }
+
+        pollVotes[pollId].push(newVote);
+        polls[pollId].hasVoted[msg.sender] = true;
+        polls[pollId].ballotIndex[msg.sender] = pollVotes[pollId].length;
+        polls[pollId].totalVotes++;
+
+        _emitVoteCast(pollId, index, false);
+    }
+
+    /// @dev Hands the caller's weight on this poll to `delegatee`, whose ballot then counts it.
+    /// Replaces an earlier delegation; voting directly later takes the weight back. On a
+    /// confidential token poll this escrows the caller's balance, as voting does.
+    function delegate(bytes32 pollId, address delegatee, bytes32[] calldata eligibilityProof) external {
+        _requireDelegationOpen(pollId);
+        require(delegatee != address(0) && delegatee != msg.sender, "Invalid delegate");
+        require(!polls[pollId].hasVoted[msg.sender], "Already voted");
+        require(_isEligible(pollId, msg.sender, eligibilityProof), "Not eligible");
+
+        if (pollDelegations[pollId].delegateOf[msg.sender] != address(0)) {
+            _withdrawDelegation(pollId, msg.sender);
+        }
+        _assignDelegation(pollId, msg.sender, delegatee);
+    }
+
+    function undelegate(bytes32 pollId) external {
+        _requireDelegationOpen(pollId);
+        require(pollDelegations[pollId].delegateOf[msg.sender] != address(0), "Not delegated");
+        _withdrawDelegation(pollId, msg.sender);
+        pollDelegations[pollId].optedOut[msg.sender] = true;
+    }
+
+    /// @dev Standing delegation for every poll in a tenant's namespace; zero clears it. It takes
+    /// effect on a poll once claimTenantDelegation is called for it.
+    function setTenantDelegate(bytes32 tenantId, address delegatee) external {
+        require(tenantId != bytes32(0), "Invalid tenant");
+        require(delegatee != msg.sender, "Invalid delegate");
+        tenantDelegates[tenantId][msg.sender] = delegatee;
+        emit TenantDelegateChanged(tenantId, msg.sender, delegatee);
+    }
+
+    /// @dev Applies a delegator's standing tenant delegation to one poll. Anyone can call it,
+    /// typically the delegate before voting, except on a confidential token poll, where it
+    /// escrows the delegator's balance and only they can. A poll-level delegation or a direct
+    /// vote wins, and a delegator who undelegated on the poll stays out of it.
+    function claimTenantDelegation(
+        bytes32 pollId,
+        address delegator,
+        bytes32[] calldata eligibilityProof
+    ) external {
+        _requireDelegationOpen(pollId);
+        require(polls[pollId].confidentialToken == address(0) || msg.sender == delegator, "Only the delegator");
+        address delegatee = tenantDelegates[polls[pollId].tenantId][delegator];
+        require(polls[pollId].tenantId != bytes32(0) && delegatee != address(0), "No tenant delegation");
+        require(pollDelegations[pollId].delegateOf[delegator] == address(0), "Already delegated");
+        require(!pollDelegations[pollId].optedOut[delegator], "Delegator opted out");
+        require(!polls[pollId].hasVoted[delegator], "Already voted");
+        require(_isEligible(pollId, delegator, eligibilityProof), "Not eligible");
+
+        _assignDelegation(pollId, delegator, delegatee);
+    }
+
+    /// @dev Returns the confidential tokens the caller escrowed by voting or delegating on a
+    /// token-gated poll, once its voting window is over or it was cancelled.
+    function withdrawConfidentialTokens(bytes32 pollId) external {
+        _requirePollExists(pollId);
+        PollStatus status = _pollStatus(pollId);
+        require(status != PollStatus.Scheduled && status != PollStatus.Active, "Voting not over");
+        euint64 escrowed = confidentialEscrows[pollId][msg.sender];
+        require(FHE.isInitialized(escrowed), "Nothing escrowed");
+
+        confidentialEscrows[pollId][msg.sender] = euint64.wrap(0);
+        ConfidentialWeighting.releaseEscrow(polls[pollId].confidentialToken, escrowed, msg.sender);
+
+        emit ConfidentialTokensWithdrawn(pollId, _pollTenant(pollId), msg.sender);
+    }
+
+    function getDelegate(bytes32 pollId, address delegator) external view returns (address) {
+        _requirePollExists(pollId);
+        return pollDelegations[pollId].delegateOf[delegator];
+    }
+
+    function getCancelReason(bytes32 pollId) external view returns (string memory) {
+        _requirePollExists(pollId);
+        require(polls[pollId].status == PollStatus.Cancelled, "Poll not cancelled");
+        return polls[pollId].cancelReason;
+    }
+
+    function getEligibilityRoot(bytes32 pollId) external view returns (bytes32) {
+        _requirePollExists(pollId);
+        return polls[pollId].eligibilityRoot;
+    }
+
+    function getPollOwner(bytes32 pollId) external view returns (address) {
+        _requirePollExists(pollId);
+        return polls[pollId].owner;
+    }
+
+    function getPollMetadata(bytes32 pollId) external view returns (
+        string memory description,
+        string[] memory options,
+        bytes32 contentHash,
+        uint16 schemaVersion
+    ) {
+        _requirePollExists(pollId);
+        PollMetadata storage metadata = pollMetadata[pollId];
+        return (metadata.description, metadata.options, metadata.contentHash, metadata.schemaVersion);
+    }
+
+    /// @dev Plurality ballots whose encrypted choice was outside the poll's options. Readable
+    /// once the tallies are verified; the encrypted count is released with them on close.
+    function getInvalidBallotCount(bytes32 pollId) external view returns (uint32) {
+        _requirePollExists(pollId);
+        require(polls[pollId].talliesVerified, "Tallies not verified");
+        return polls[pollId].invalidBallotCount;
+    }
+
+    function getEncryptedInvalidBallots(bytes32 pollId) external view returns (euint32) {
+        _requirePollExists(pollId);
+        return polls[pollId].invalidBallots;
+    }
+
+    function getCoOwners(bytes32 pollId) external view returns (address[] memory) {
+        _requirePollExists(pollId);
+        return pollCoOwners[pollId];
+    }
+
+    function isPollAdmin(bytes32 pollId, address account) external view returns (bool) {
+        _requirePollExists(pollId);
+        return _isPollAdmin(pollId, account);
+    }
+
+    function getAllPollIds() external view returns (bytes32[] memory) {
+        return pollIds;
+    }
+
+    /// @dev The human-readable ID the poll was created under; its keccak256 is the poll ID.
+    function getPollSlug(bytes32 pollId) external view returns (string memory) {
+        _requirePollExists(pollId);
+        return polls[pollId].slug;
+    }
+
+    function getVote(bytes32 pollId, uint256 voteIndex) external view returns (
+        euint32 encryptedVote,
+        address voter,
+        uint256 timestamp,
+        uint32 weight
+    ) {
+        _requirePollExists(pollId);
+        require(voteIndex < pollVotes[pollId].length, "Invalid vote index");
+        Vote memory vote = pollVotes[pollId][voteIndex];
+        return (
+            vote.encryptedVote,
+            vote.voter,
+            vote.timestamp,
+            vote.weight
+        );
+    }
+
+    function getPollVotes(bytes32 pollId) external view returns (Vote[] memory) {
+        _requirePollExists(pollId);
+        return pollVotes[pollId];
+    }
+
+    function hasVoted(bytes32 pollId, address voter) external view returns (bool) {
+        _requirePollExists(pollId);
+        return polls[pollId].hasVoted[voter];
+    }
+
+    /// @dev Whether a token has voted in a one-vote-per-NFT poll, whoever holds it now.
+    function hasTokenVoted(bytes32 pollId, uint256 tokenId) external view returns (bool) {
+        _requirePollExists(pollId);
+        return polls[pollId].tokenBallotIndex[tokenId] != 0;
+    }
+
+    function isEligible(
+        bytes32 pollId,
+        address voter,
+        bytes32[] calldata eligibilityProof
+    ) external view returns (bool) {
+        _requirePollExists(pollId);
+        return _isEligible(pollId, voter, eligibilityProof);
+    }
+
+    function getVotingWeight(bytes32 pollId, address voter) external view returns (uint32) {
+        _requirePollExists(pollId);
+        return _votingWeight(pollId, voter);
+    }
+
+    function getEligibilityNft(bytes32 pollId) external view returns (address) {
+        _requirePollExists(pollId);
+        return polls[pollId].eligibilityNft;
+    }
+
+    function getConfidentialToken(bytes32 pollId) external view returns (
+        address token,
+        uint64 minBalance,
+        uint64 weightUnit
+    ) {
+        _requirePollExists(pollId);
+        Poll storage poll = polls[pollId];
+        return (poll.confidentialToken, poll.confidentialMinBalance, poll.confidentialWeightUnit);
+    }
+
+    /// @dev Who can vote on a poll and what it needs to pass, for contracts acting on its outcome.
+    function getPollRules(bytes32 pollId) external view returns (PollRules memory) {
+        _requirePollExists(pollId);
+        Poll storage poll = polls[pollId];
+        return PollRules({
+            quorum: poll.quorum,
+            approvalBps: poll.approvalBps,
+            eligibilityRoot: poll.eligibilityRoot,
+            eligibilityNft: poll.eligibilityNft,
+            weightToken: poll.weightToken,
+            weightSnapshotId: poll.weightSnapshotId,
+            weightUnit: poll.weightUnit,
+            confidentialToken: poll.confidentialToken,
+            confidentialMinBalance: poll.confidentialMinBalance,
+            confidentialWeightUnit: poll.confidentialWeightUnit,
+            duration: poll.endTime - poll.startTime
+        });
+    }
+
+    function getRankedResult(bytes32 pollId) external view returns (
+        bool finished,
+        uint8 winner,
+        uint256 rounds,
+        uint256 eliminated
+    ) {
+        _requirePollExists(pollId);
+        RankedTally storage tally = rankedTallies[pollId];
+        return (tally.finished, tally.winner, rankedRoundResults[pollId].length, tally.eliminated);
+    }
+
+    function getRankedRoundCounts(bytes32 pollId, uint256 round) external view returns (uint32[] memory) {
+        _requirePollExists(pollId);
+        require(round < rankedRoundResults[pollId].length, "Invalid round");
+        return rankedRoundResults[pollId][round];
+    }
+
+    function getPollOutcome(bytes32 pollId) external view returns (
+        bool verified,
+        bool quorumMet,
+        bool passed
+    ) {
+        _requirePollExists(pollId);
+        return (polls[pollId].outcomeVerified, polls[pollId].quorumMet, polls[pollId].passed);
+    }
+
+    function getEncryptedTallies(bytes32 pollId) external view returns (euint32[] memory) {
+        _requirePollExists(pollId);
+        return pollTallies[pollId];
+    }
+
+    function areTalliesVerified(bytes32 pollId) external view returns (bool) {
+        _requirePollExists(pollId);
+        return polls[pollId].talliesVerified;
+    }
+
+    function getPollResults(bytes32 pollId) external view returns (uint32[] memory) {
+        _requirePollExists(pollId);
+        require(polls[pollId].talliesVerified, "Tallies not verified");
+        return pollResults[pollId];
+    }
+
+    /// @dev The record written when the poll's tallies were verified, with the verified tallies
+    /// and invalid-ballot count alongside it. Its ballotRoot is zero until isBallotRootFinalized.
+    function getResultRecord(
+        bytes32 pollId
+    ) external view returns (ResultRecord memory record, uint32[] memory tallies, uint32 invalidBallots) {
+        _requirePollExists(pollId);
+        require(polls[pollId].talliesVerified, "Tallies not verified");
+        return (resultRecords[pollId], pollResults[pollId], polls[pollId].invalidBallotCount);
+    }
+
+    function isBallotRootFinalized(bytes32 pollId) external view returns (bool) {
+        _requirePollExists(pollId);
+        return ballotRootProgress[pollId].finalized;
+    }
+
+    function _requireDelegationOpen(bytes32 pollId) private view {
+        _requirePollExists(pollId);
+        require(polls[pollId].pollType == PollType.Plurality, "Not a plurality poll");
+        require(polls[pollId].eligibilityNft == address(0), "NFT polls can't delegate");
+        PollStatus status = _pollStatus(pollId);
+        require(status == PollStatus.Scheduled || status == PollStatus.Active, "Voting period ended");
+    }
+
+    function _assignDelegation(bytes32 pollId, address delegator, address delegatee) private {
+        euint32 weight;
+        if (polls[pollId].confidentialToken != address(0)) {
+            weight = _confidentialWeight(pollId, delegator);
+        } else {
+            uint32 clearWeight = _votingWeight(pollId, delegator);
+            require(clearWeight > 0, "No voting weight");
+            _updateTotalWeight(pollId, 0, clearWeight);
+            weight = FHE.asEuint32(clearWeight);
+            FHE.allowThis(weight);
+        }
+
+        PollDelegations storage delegations = pollDelegations[pollId];
+        delegations.delegateOf[delegator] = delegatee;
+        delegations.delegatedWeight[delegator] = weight;
+        delegations.receivedWeight[delegatee] = FHE.add(delegations.receivedWeight[delegatee], weight);
+        FHE.allowThis(delegations.receivedWeight[delegatee]);
+
+        uint256 index = polls[pollId].ballotIndex[delegatee];
+        if (index != 0) {
+            _shiftTally(pollId, pollVotes[pollId][index - 1].encryptedVote, weight, true);
+        }
+
+        emit DelegateChanged(pollId, _pollTenant(pollId), delegator, delegatee);
+    }
+
+    function _removeCoOwner(bytes32 pollId, address coOwner) private {
+        address[] storage coOwners = pollCoOwners[pollId];
+        for (uint256 i = 0; i < coOwners.length; i++) {
+            if (coOwners[i] == coOwner) {
+                coOwners[i] = coOwners[coOwners.length - 1];
+                coOwners.pop();
+                break;
+            }
+        }
+        polls[pollId].isCoOwner[coOwner] = false;
+
+        emit CoOwnerRemoved(pollId, _pollTenant(pollId), coOwner);
+    }
+}
@@ -0,0 +1,13 @@
+pragma solidity ^0.8.24;
+
+import { TransparentUpgradeableProxy } from "@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol";
+
+/// @dev The stable VotingService address apps talk to. The constructor deploys a ProxyAdmin
+/// owned by `initialOwner`; only that owner can upgrade the implementation.
+contract VotingServiceProxy is TransparentUpgradeableProxy {
+    constructor(
+        address implementation,
+        address initialOwner,
+        bytes memory data
+    ) TransparentUpgradeableProxy(implementation, initialOwner, data) {}
+}
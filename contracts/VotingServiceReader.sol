@@ -0,0 +1,162 @@
+pragma solidity ^0.8.24;
+
+import { euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { VotingService } from "./VoteService_Z.sol";
+import { VotingServiceAdmin } from "./VotingServiceAdmin.sol";
+
+/// @dev Paged, filtered views over a VotingService deployment. Kept out of the service itself
+/// so list queries don't count towards its bytecode size.
+contract VotingServiceReader {
+    struct PollSummary {
+        bytes32 pollId;
+        string slug;
+        string question;
+        address creator;
+        bytes32 tenantId;
+        uint256 startTime;
+        uint256 endTime;
+        uint8 optionCount;
+        uint32 totalVotes;
+        VotingService.PollStatus status;
+        VotingService.EligibilityMode eligibilityMode;
+    }
+
+    /// @dev Zero values disable a criterion. The time window matches polls whose voting
+    /// window overlaps [fromTime, toTime]. A tenant ID scans only that tenant's polls.
+    struct PollFilter {
+        bool filterByStatus;
+        VotingService.PollStatus status;
+        bytes32 tenantId;
+        address creator;
+        uint256 fromTime;
+        uint256 toTime;
+    }
+
+    struct BallotSummary {
+        euint32 encryptedVote;
+        address voter;
+        uint256 timestamp;
+        uint32 weight;
+    }
+
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    uint256 public constant MAX_SCAN_SIZE = 200;
+
+    VotingService public immutable votingService;
+
+    constructor(VotingService service) {
+        votingService = service;
+    }
+
+    /// @dev Polls [offset, offset + limit) in creation order, of every tenant or only of
+    /// `tenantId` when it is set. `total` is the length of that list.
+    function getPollsPage(
+        bytes32 tenantId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PollSummary[] memory page, uint256 total) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        total = _pollListLength(tenantId);
+        uint256 end = offset + limit > total ? total : offset + limit;
+        uint256 size = offset < end ? end - offset : 0;
+
+        page = new PollSummary[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = _pollSummary(_pollIdAt(tenantId, offset + i));
+        }
+    }
+
+    /// @dev Looks at no more than `scanSize` polls from position `cursor` and returns up to
+    /// `limit` of them that match `filter`. Continue from `nextCursor`, which is zero once the
+    /// end of the list is reached; a short or empty page doesn't mean the scan is over.
+    function findPolls(
+        PollFilter calldata filter,
+        uint256 cursor,
+        uint256 limit,
+        uint256 scanSize
+    ) external view returns (PollSummary[] memory page, uint256 nextCursor) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+        require(scanSize > 0 && scanSize <= MAX_SCAN_SIZE, "Invalid scan size");
+
+        uint256 length = _pollListLength(filter.tenantId);
+        uint256 end = cursor + scanSize > length ? length : cursor + scanSize;
+        PollSummary[] memory matches = new PollSummary[](limit);
+        uint256 count;
+        uint256 position = cursor;
+        for (; position < end && count < limit; position++) {
+            PollSummary memory summary = _pollSummary(_pollIdAt(filter.tenantId, position));
+            if (_matchesFilter(summary, filter)) {
+                matches[count++] = summary;
+            }
+        }
+        nextCursor = position < length ? position : 0;
+
+        page = new PollSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = matches[i];
+        }
+    }
+
+    function getPollVotesPage(
+        bytes32 pollId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BallotSummary[] memory page, uint256 total) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        (, , , , uint32 totalVotes, , ) = votingService.getPollDetails(pollId);
+        total = totalVotes;
+        uint256 end = offset + limit > total ? total : offset + limit;
+        uint256 size = offset < end ? end - offset : 0;
+
+        page = new BallotSummary[](size);
+        // Served by the admin module through the service's fallback
+        VotingServiceAdmin admin = VotingServiceAdmin(address(votingService));
+        for (uint256 i = 0; i < size; i++) {
+            BallotSummary memory ballot = page[i];
+            (ballot.encryptedVote, ballot.voter, ballot.timestamp, ballot.weight) = admin.getVote(pollId, offset + i);
+        }
+    }
+
+    function _pollListLength(bytes32 tenantId) private view returns (uint256) {
+        return tenantId != bytes32(0) ? votingService.getTenantPollCount(tenantId) : votingService.getPollCount();
+    }
+
+    function _pollIdAt(bytes32 tenantId, uint256 position) private view returns (bytes32) {
+        return tenantId != bytes32(0) ? votingService.tenantPollIds(tenantId, position) : votingService.pollIds(position);
+    }
+
+    function _pollSummary(bytes32 pollId) private view returns (PollSummary memory summary) {
+        summary.pollId = pollId;
+        // Served by the admin module through the service's fallback
+        summary.slug = VotingServiceAdmin(address(votingService)).getPollSlug(pollId);
+        summary.creator = votingService.getPollCreator(pollId);
+        summary.tenantId = votingService.getPollTenant(pollId);
+        (
+            summary.question,
+            summary.startTime,
+            summary.endTime,
+            summary.optionCount,
+            summary.totalVotes,
+            summary.status,
+            summary.eligibilityMode
+        ) = votingService.getPollDetails(pollId);
+    }
+
+    function _matchesFilter(PollSummary memory summary, PollFilter calldata filter) private pure returns (bool) {
+        if (filter.filterByStatus && summary.status != filter.status) {
+            return false;
+        }
+        if (filter.creator != address(0) && summary.creator != filter.creator) {
+            return false;
+        }
+        if (filter.fromTime != 0 && summary.endTime < filter.fromTime) {
+            return false;
+        }
+        if (filter.toTime != 0 && summary.startTime > filter.toTime) {
+            return false;
+        }
+        return true;
+    }
+}
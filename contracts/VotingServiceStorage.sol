@@ -0,0 +1,495 @@
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint32, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { ConfidentialWeighting } from "./ConfidentialWeighting.sol";
+import { RankedChoiceCounting } from "./RankedChoiceCounting.sol";
+import { TenantRegistry } from "./TenantRegistry.sol";
+
+interface IERC20Snapshot {
+    function balanceOfAt(address account, uint256 snapshotId) external view returns (uint256);
+}
+
+/// @dev The ERC-7984 functions token-gated polls use. Transfers out of an account need the
+/// service set as an operator of it.
+interface IConfidentialToken {
+    function confidentialBalanceOf(address account) external view returns (euint64);
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64);
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64);
+}
+
+/// @dev Types, storage, events and shared checks of VotingService. VotingService and its
+/// admin module both inherit this so the module can run against the service's storage.
+/// The service sits behind a proxy: only append new state variables and struct members
+/// (never to structs stored in arrays), then run `npx hardhat storage-layout:check`.
+abstract contract VotingServiceStorage {
+    enum PollType {
+        Plurality,
+        RankedChoice
+    }
+
+    /// @dev Derived from the poll's settings: an eligibility root makes it Allowlist, an
+    /// eligibility NFT makes it one vote per token.
+    enum EligibilityMode {
+        Open,
+        Allowlist,
+        Nft
+    }
+
+    enum PollStatus {
+        Scheduled,
+        Active,
+        Ended,
+        Closed,
+        Cancelled
+    }
+
+    /// @dev Two slots per ballot: the handle, then voter, timestamp and weight packed together.
+    struct Vote {
+        euint32 encryptedVote;
+        address voter;
+        uint64 timestamp;
+        uint32 weight;
+    }
+
+    struct PollConfig {
+        PollType pollType;
+        uint8 optionCount;
+        uint256 startTime;
+        uint256 duration;
+        bool voterCanDecrypt;
+        bool allowRevote;
+        uint32 quorum;
+        uint16 approvalBps;
+        bool hideCounts;
+        bytes32 eligibilityRoot;
+        address weightToken;
+        uint256 weightSnapshotId;
+        uint256 weightUnit;
+        address eligibilityNft;
+        address confidentialToken;
+        uint64 confidentialMinBalance;
+        uint64 confidentialWeightUnit;
+    }
+
+    /// @dev A poll's voter set and outcome rules as returned by getPollRules. `duration` is the
+    /// length of its voting window, including any extension.
+    struct PollRules {
+        uint32 quorum;
+        uint16 approvalBps;
+        bytes32 eligibilityRoot;
+        address eligibilityNft;
+        address weightToken;
+        uint256 weightSnapshotId;
+        uint256 weightUnit;
+        address confidentialToken;
+        uint64 confidentialMinBalance;
+        uint64 confidentialWeightUnit;
+        uint256 duration;
+    }
+
+    /// @dev Members are packed so casting a ballot reads one slot for the voting window,
+    /// status and ballot settings; the verified results share the owner's slot.
+    struct Poll {
+        string slug;
+        string question;
+        uint64 startTime;
+        uint64 endTime;
+        PollStatus status;
+        PollType pollType;
+        uint8 optionCount;
+        uint32 totalVotes;
+        bool voterCanDecrypt;
+        bool allowRevote;
+        bool talliesVerified;
+        bool hideCounts;
+        uint32 quorum;
+        address owner;
+        uint16 approvalBps;
+        bool outcomeVerified;
+        bool quorumMet;
+        bool passed;
+        uint32 invalidBallotCount;
+        address creator;
+        address weightToken;
+        address eligibilityNft;
+        bytes32 tenantId;
+        bytes32 eligibilityRoot;
+        uint256 weightSnapshotId;
+        uint256 weightUnit;
+        euint32 invalidBallots;
+        ebool encryptedQuorumMet;
+        ebool encryptedPassed;
+        string cancelReason;
+        mapping(address => bool) hasVoted;
+        mapping(address => uint256) ballotIndex;
+        mapping(address => bool) isCoOwner;
+        mapping(uint256 => uint256) tokenBallotIndex;
+        address confidentialToken;
+        uint64 confidentialMinBalance;
+        uint64 confidentialWeightUnit;
+        /// @dev Sum of the clear weights counted on the tallies, including delegated weight,
+        /// with each escrowed confidential balance at the most it can weigh. Kept within uint32
+        /// so the euint32 tallies can't wrap.
+        uint64 totalWeight;
+    }
+
+    /// @dev What voters are shown. `options` holds one label per option, or is empty when the
+    /// ballot text lives in an off-chain document whose keccak256 hash is `contentHash`.
+    struct PollMetadata {
+        string description;
+        string[] options;
+        bytes32 contentHash;
+        uint16 schemaVersion;
+    }
+
+    /// @dev Liquid delegation on one plurality poll. Each delegator's weight is kept only
+    /// encrypted, in `delegatedWeight`, and added to their delegate's encrypted `receivedWeight`,
+    /// which is counted on the delegate's ballot. Who delegates to whom is public, as the
+    /// delegate call names the delegate. On a confidential token poll the weight comes from the
+    /// delegator's escrowed balance and no one can tell how much a delegate holds; on other polls
+    /// it follows from the public snapshot balance, or is one, so it can be worked out.
+    struct PollDelegations {
+        mapping(address => address) delegateOf;
+        mapping(address => euint32) delegatedWeight;
+        mapping(address => euint32) receivedWeight;
+        /// @dev Delegators who undelegated on this poll; their tenant delegation can't be claimed on it.
+        mapping(address => bool) optedOut;
+    }
+
+    /// @dev Written once, when a plurality poll's tallies are verified. The tallies themselves
+    /// stay in pollResults and invalidBallotCount; `ballotRoot` commits to every counted ballot
+    /// as a sorted-pair Merkle tree over keccak256(keccak256(abi.encode(handle, voter))) leaves
+    /// in ballot order. It stays zero until finalizeBallotRoot has gone through every ballot.
+    /// Ranked-choice polls have no record: their result is decrypted round by round, each round
+    /// with its own proof, and is kept in rankedRoundResults instead.
+    struct ResultRecord {
+        bytes32 proofHash;
+        uint256 finalizedBlock;
+        bytes32 ballotRoot;
+        uint256 ballotCount;
+    }
+
+    /// @dev Where finalizeBallotRoot is in building a poll's ballot root. `subtrees[level]` holds
+    /// the root of a full subtree of 2^level ballots while that bit of `processed` is set.
+    struct BallotRootProgress {
+        uint256 processed;
+        bool finalized;
+        mapping(uint256 => bytes32) subtrees;
+    }
+
+    /// @dev Ranked ballots live alongside their count: external library functions can
+    /// take a struct holding encrypted arrays by storage reference, but not the arrays.
+    struct RankedTally {
+        euint32[][] ballots;
+        uint256 round;
+        uint256 nextBallot;
+        uint256 eliminated;
+        euint32[] counts;
+        bool roundReady;
+        bool finished;
+        uint8 winner;
+    }
+
+    mapping(bytes32 => Poll) internal polls;
+    mapping(bytes32 => Vote[]) internal pollVotes;
+    mapping(bytes32 => euint32[]) internal pollTallies;
+    mapping(bytes32 => uint32[]) internal pollResults;
+    mapping(bytes32 => address[]) internal pollCoOwners;
+    mapping(bytes32 => RankedTally) internal rankedTallies;
+    mapping(bytes32 => uint32[][]) internal rankedRoundResults;
+    bytes32[] public pollIds;
+    mapping(bytes32 => bytes32[]) public tenantPollIds;
+    mapping(address => uint256) public nonces;
+    mapping(bytes32 => PollMetadata) internal pollMetadata;
+    mapping(bytes32 => PollDelegations) internal pollDelegations;
+    mapping(bytes32 => mapping(address => address)) public tenantDelegates;
+    mapping(bytes32 => ResultRecord) internal resultRecords;
+    /// @dev Encrypted weight each voter's escrowed balance adds to their ballot, or to their
+    /// delegate's, in a confidential token poll.
+    mapping(bytes32 => mapping(address => euint32)) internal confidentialWeights;
+    /// @dev Confidential tokens each voter locked into a token-gated poll, held until voting is over.
+    mapping(bytes32 => mapping(address => euint64)) internal confidentialEscrows;
+    mapping(bytes32 => BallotRootProgress) internal ballotRootProgress;
+    TenantRegistry public immutable tenantRegistry;
+
+    uint8 public constant MAX_OPTIONS = 16;
+    uint8 public constant MAX_RANKED_OPTIONS = 8;
+    uint8 public constant NO_WINNER = RankedChoiceCounting.NO_WINNER;
+    uint16 public constant BPS_DENOMINATOR = 10_000;
+    /// @dev Cap on one voter's weight in a confidential token poll. With a weight unit each
+    /// voter reserves this much of the uint32 totalWeight, as the actual weight is encrypted,
+    /// so such a poll takes at most 65,537 voters; the next ballot reverts with "Total voting
+    /// weight too large". Without a unit each voter reserves one.
+    uint32 public constant MAX_CONFIDENTIAL_WEIGHT = type(uint16).max;
+    /// @dev Bumped whenever lifecycle event signatures change; events are suffixed with it.
+    uint8 public constant EVENT_SCHEMA_VERSION = 3;
+
+    /// @dev Poll IDs are keccak256 of the poll's slug, so the `pollId` topic equals the hash an
+    /// indexed string slug would log. PollCreatedV3 carries the slug itself.
+    event PollCreatedV3(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        address indexed creator,
+        string slug,
+        address owner,
+        PollType pollType,
+        uint8 optionCount,
+        uint256 startTime,
+        uint256 endTime
+    );
+    /// @dev `ballotIndex` is the ballot's position in getPollVotes; `replaced` marks a re-vote
+    /// that overwrote the voter's earlier ballot at that position.
+    event VoteCastV3(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        address indexed voter,
+        uint256 ballotIndex,
+        uint32 weight,
+        bool replaced,
+        uint256 timestamp
+    );
+    event BallotRelayed(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed voter, address relayer);
+    event TalliesDecryptedV3(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        uint32[] tallies,
+        uint32 invalidBallots,
+        uint32 totalVotes
+    );
+    event PollFinalized(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        bytes32 ballotRoot,
+        uint256 ballotCount,
+        bytes32 proofHash
+    );
+    event TalliesBatchVerified(uint256 pollCount, uint256 handleCount);
+    event PollClosedV3(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        address indexed closedBy,
+        uint32 totalVotes,
+        uint256 endTime,
+        uint256 closedAt
+    );
+    event TalliesReleased(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32[] handles);
+    event OutcomeReleased(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32 quorumMetHandle, bytes32 passedHandle);
+    event OutcomeDecrypted(bytes32 indexed pollId, bytes32 indexed tenantId, bool quorumMet, bool passed);
+    event PollOwnershipTransferred(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        address previousOwner,
+        address indexed newOwner
+    );
+    event CoOwnerAdded(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed coOwner);
+    event CoOwnerRemoved(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed coOwner);
+    event PollExtended(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 previousEndTime, uint256 newEndTime);
+    event PollCancelled(bytes32 indexed pollId, bytes32 indexed tenantId, string reason);
+    event EligibilityRootUpdated(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32 previousRoot, bytes32 newRoot);
+    event RankedRoundTallied(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 round, bytes32[] handles);
+    event RankedRoundCompleted(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        uint256 round,
+        uint32[] counts,
+        uint8 eliminatedOption
+    );
+    event RankedChoiceWinner(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 round, uint8 winner);
+    event DelegateChanged(
+        bytes32 indexed pollId,
+        bytes32 indexed tenantId,
+        address indexed delegator,
+        address delegatee
+    );
+    event TenantDelegateChanged(bytes32 indexed tenantId, address indexed delegator, address indexed delegatee);
+    event ConfidentialTokensWithdrawn(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed voter);
+
+    modifier onlyPollOwner(bytes32 pollId) {
+        _requirePollExists(pollId);
+        require(msg.sender == polls[pollId].owner, "Not poll owner");
+        _;
+    }
+
+    modifier onlyPollAdmin(bytes32 pollId) {
+        _requirePollExists(pollId);
+        require(_isPollAdmin(pollId, msg.sender), "Not poll admin");
+        _;
+    }
+
+    constructor(TenantRegistry registry) {
+        tenantRegistry = registry;
+    }
+
+    function _requirePollExists(bytes32 pollId) internal view {
+        require(polls[pollId].creator != address(0), "Poll does not exist");
+    }
+
+    /// @dev Only Scheduled, Closed and Cancelled are ever stored; Active and Ended are
+    /// derived from the voting window while a poll is neither closed nor cancelled.
+    function _pollStatus(bytes32 pollId) internal view returns (PollStatus) {
+        PollStatus stored = polls[pollId].status;
+        if (stored != PollStatus.Scheduled) {
+            return stored;
+        }
+        if (block.timestamp < polls[pollId].startTime) {
+            return PollStatus.Scheduled;
+        }
+        if (block.timestamp < polls[pollId].endTime) {
+            return PollStatus.Active;
+        }
+        return PollStatus.Ended;
+    }
+
+    function _requireVotingOpen(bytes32 pollId) internal view {
+        PollStatus status = _pollStatus(pollId);
+        require(status != PollStatus.Cancelled, "Poll cancelled");
+        require(status != PollStatus.Scheduled, "Voting not started");
+        require(status == PollStatus.Active, "Voting period ended");
+    }
+
+    function _hasOutcomeRules(bytes32 pollId) internal view returns (bool) {
+        return polls[pollId].quorum > 0 || polls[pollId].approvalBps > 0;
+    }
+
+    /// @dev Emits VoteCastV3 for the ballot stored at `ballotIndex`, which is zero-based unlike
+    /// the one-based indices kept in Poll.ballotIndex.
+    function _emitVoteCast(bytes32 pollId, uint256 ballotIndex, bool replaced) internal {
+        Vote storage ballot = pollVotes[pollId][ballotIndex];
+        emit VoteCastV3(
+            pollId,
+            _pollTenant(pollId),
+            ballot.voter,
+            ballotIndex,
+            ballot.weight,
+            replaced,
+            ballot.timestamp
+        );
+    }
+
+    /// @dev Tenant admins can administer every poll in their namespace.
+    function _isPollAdmin(bytes32 pollId, address account) internal view returns (bool) {
+        if (account == polls[pollId].owner || polls[pollId].isCoOwner[account]) {
+            return true;
+        }
+        bytes32 tenantId = polls[pollId].tenantId;
+        return tenantId != bytes32(0) && tenantRegistry.isTenantAdmin(tenantId, account);
+    }
+
+    function _pollTenant(bytes32 pollId) internal view returns (bytes32) {
+        return polls[pollId].tenantId;
+    }
+
+    /// @dev A zero root leaves the poll open to everyone. Leaves are double-hashed
+    /// (`keccak256(keccak256(abi.encode(voter)))`) and pairs are hashed in sorted order,
+    /// matching the tree built by the SDK's eligibility helpers.
+    function _isEligible(
+        bytes32 pollId,
+        address voter,
+        bytes32[] calldata proof
+    ) internal view returns (bool) {
+        bytes32 root = polls[pollId].eligibilityRoot;
+        if (root == bytes32(0)) {
+            return true;
+        }
+
+        bytes32 node = keccak256(bytes.concat(keccak256(abi.encode(voter))));
+        for (uint256 i = 0; i < proof.length; i++) {
+            node = _hashPair(node, proof[i]);
+        }
+        return node == root;
+    }
+
+    function _hashPair(bytes32 a, bytes32 b) internal pure returns (bytes32) {
+        return a < b ? keccak256(abi.encodePacked(a, b)) : keccak256(abi.encodePacked(b, a));
+    }
+
+    /// @dev Unweighted polls count every ballot once. Weighted polls use the voter's token
+    /// balance at the poll's snapshot, expressed in `weightUnit`s so it fits the euint32 tallies.
+    /// Confidential token polls have no clear weight; see _countConfidentialWeight.
+    function _votingWeight(bytes32 pollId, address voter) internal view returns (uint32) {
+        if (polls[pollId].confidentialToken != address(0)) {
+            return 0;
+        }
+        address token = polls[pollId].weightToken;
+        if (token == address(0)) {
+            return 1;
+        }
+
+        uint256 balance = IERC20Snapshot(token).balanceOfAt(voter, polls[pollId].weightSnapshotId);
+        uint256 weight = balance / polls[pollId].weightUnit;
+        require(weight <= type(uint32).max, "Voting weight too large");
+        return uint32(weight);
+    }
+
+    /// @dev Replaces `removed` with `added` in the poll's totalWeight, which must stay within
+    /// what a euint32 tally can hold.
+    function _updateTotalWeight(bytes32 pollId, uint256 removed, uint256 added) internal {
+        uint256 total = polls[pollId].totalWeight - removed + added;
+        require(total <= type(uint32).max, "Total voting weight too large");
+        polls[pollId].totalWeight = uint64(total);
+    }
+
+    /// @dev Counts the weight of the voter's escrowed confidential tokens on `ballot`. A
+    /// re-vote (`index` is not zero) moves the same weight off the previous ballot.
+    function _countConfidentialWeight(bytes32 pollId, address voter, uint256 index, euint32 ballot) internal {
+        if (index != 0) {
+            euint32 previous = pollVotes[pollId][index - 1].encryptedVote;
+            _shiftTally(pollId, previous, confidentialWeights[pollId][voter], false);
+        }
+        _shiftTally(pollId, ballot, _confidentialWeight(pollId, voter), true);
+    }
+
+    /// @dev The encrypted weight of a voter in a confidential token poll. The first time, when
+    /// they vote or delegate, the voter's whole balance is moved into escrow, where it stays
+    /// until voting is over, so the same tokens can't vote again from another address; see
+    /// ConfidentialWeighting.escrowAndWeigh. totalWeight only takes the fixed reservation.
+    function _confidentialWeight(bytes32 pollId, address voter) internal returns (euint32 counted) {
+        counted = confidentialWeights[pollId][voter];
+        if (FHE.isInitialized(counted)) {
+            return counted;
+        }
+
+        Poll storage poll = polls[pollId];
+        _updateTotalWeight(pollId, 0, poll.confidentialWeightUnit == 0 ? 1 : MAX_CONFIDENTIAL_WEIGHT);
+        euint64 escrowed;
+        (escrowed, counted) = ConfidentialWeighting.escrowAndWeigh(poll, voter, MAX_CONFIDENTIAL_WEIGHT);
+        confidentialEscrows[pollId][voter] = escrowed;
+        confidentialWeights[pollId][voter] = counted;
+    }
+
+    /// @dev Adds `amount` to, or withdraws it from, the tally of the option `ballot` names.
+    /// Every counter is touched so the option stays hidden.
+    function _shiftTally(bytes32 pollId, euint32 ballot, euint32 amount, bool add) internal {
+        euint32[] storage tallies = pollTallies[pollId];
+        euint32 zero = FHE.asEuint32(0);
+        for (uint8 i = 0; i < tallies.length; i++) {
+            euint32 share = FHE.select(FHE.eq(ballot, uint32(i)), amount, zero);
+            tallies[i] = add ? FHE.add(tallies[i], share) : FHE.sub(tallies[i], share);
+            FHE.allowThis(tallies[i]);
+        }
+    }
+
+    /// @dev Takes a delegator's weight back from their delegate, including from the
+    /// delegate's ballot if they have already voted. Escrowed confidential weight stays
+    /// reserved in totalWeight, as it is the delegator's to vote with.
+    function _withdrawDelegation(bytes32 pollId, address delegator) internal {
+        PollDelegations storage delegations = pollDelegations[pollId];
+        address delegatee = delegations.delegateOf[delegator];
+        euint32 weight = delegations.delegatedWeight[delegator];
+        if (polls[pollId].confidentialToken == address(0)) {
+            _updateTotalWeight(pollId, _votingWeight(pollId, delegator), 0);
+        }
+
+        delegations.receivedWeight[delegatee] = FHE.sub(delegations.receivedWeight[delegatee], weight);
+        FHE.allowThis(delegations.receivedWeight[delegatee]);
+
+        uint256 index = polls[pollId].ballotIndex[delegatee];
+        if (index != 0) {
+            _shiftTally(pollId, pollVotes[pollId][index - 1].encryptedVote, weight, false);
+        }
+
+        delete delegations.delegateOf[delegator];
+        delegations.delegatedWeight[delegator] = euint32.wrap(0);
+        emit DelegateChanged(pollId, _pollTenant(pollId), delegator, address(0));
+    }
+}
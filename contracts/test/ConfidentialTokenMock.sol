@@ -0,0 +1,54 @@
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaConfig, ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @dev Test-only ERC-7984-style token with the functions token-gated polls use and an open
+/// mint. Transfers that exceed the balance move nothing, as in ERC-7984.
+contract ConfidentialTokenMock is ZamaEthereumConfig {
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators;
+
+    /// @dev The ACL holders call to share their balance handle.
+    function acl() external view returns (address) {
+        return ZamaConfig.getEthereumCoprocessorConfig().ACLAddress;
+    }
+
+    function mint(address to, uint64 amount) external {
+        _setBalance(to, FHE.add(_balances[to], amount));
+    }
+
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64) {
+        require(FHE.isAllowed(amount, msg.sender), "Amount not allowed");
+        return _transfer(msg.sender, to, amount);
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64) {
+        require(FHE.isAllowed(amount, msg.sender), "Amount not allowed");
+        require(from == msg.sender || _operators[from][msg.sender] >= block.timestamp, "Not operator");
+        return _transfer(from, to, amount);
+    }
+
+    function _transfer(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        ebool enough = FHE.le(amount, _balances[from]);
+        transferred = FHE.select(enough, amount, FHE.asEuint64(0));
+        _setBalance(from, FHE.sub(_balances[from], transferred));
+        _setBalance(to, FHE.add(_balances[to], transferred));
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+    }
+
+    function _setBalance(address account, euint64 balance) private {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,12 @@
+pragma solidity ^0.8.24;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/// @dev Test-only membership NFT that anyone can mint, for one-vote-per-NFT polls.
+contract MembershipNftMock is ERC721 {
+    constructor() ERC721("Membership", "MBR") {}
+
+    function mint(address to, uint256 tokenId) external {
+        _mint(to, tokenId);
+    }
+}
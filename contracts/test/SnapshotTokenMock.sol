@@ -0,0 +1,14 @@
+pragma solidity ^0.8.24;
+
+/// @dev Test-only token with the ERC20Snapshot balance view that weighted polls read.
+contract SnapshotTokenMock {
+    mapping(uint256 => mapping(address => uint256)) private _balances;
+
+    function setBalanceAt(address account, uint256 snapshotId, uint256 balance) external {
+        _balances[snapshotId][account] = balance;
+    }
+
+    function balanceOfAt(address account, uint256 snapshotId) external view returns (uint256) {
+        return _balances[snapshotId][account];
+    }
+}
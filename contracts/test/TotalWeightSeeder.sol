@@ -0,0 +1,14 @@
+pragma solidity ^0.8.24;
+
+import { TenantRegistry } from "../TenantRegistry.sol";
+import { VotingServiceAdmin } from "../VotingServiceAdmin.sol";
+
+/// @dev Test-only admin module that can set a poll's totalWeight, so the uint32 limit can be
+/// reached without casting tens of thousands of ballots.
+contract TotalWeightSeeder is VotingServiceAdmin {
+    constructor(TenantRegistry registry) VotingServiceAdmin(registry) {}
+
+    function seedTotalWeight(bytes32 pollId, uint64 totalWeight) external {
+        polls[pollId].totalWeight = totalWeight;
+    }
+}
@@ -2,8 +2,8 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { deployVotingService, writeDeployment } from "./votingService";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -334,12 +334,13 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
-    await factory.waitForDeployment();
+    const deployment = await deployVotingService(wallet, wallet.address);
+    writeDeployment(deployment);
 
-    const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    // The frontend talks to the proxy, whose address survives upgrades (see deploy/upgrade.ts)
+    const deployedAddress = deployment.proxy;
+    console.log("VotingService proxy deployed at:", deployedAddress);
+    console.log("ProxyAdmin (upgrade authority):", deployment.proxyAdmin);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -361,6 +362,8 @@ async function main() {
       const config = {
         network: rpc,
         contractAddress: deployedAddress,
+        readerAddress: deployment.reader,
+        timelockAddress: deployment.pollTimelock,
         deployer: wallet.address,
       };
       fs.writeFileSync(
@@ -368,26 +371,6 @@ async function main() {
         JSON.stringify(config, null, 2)
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
-
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
-          e
-        );
-      }
     }
   } catch (error) {
     console.error("Deployment failed:", error);
@@ -0,0 +1,67 @@
+// deploy/upgrade.ts
+//
+// Upgrade the VotingService behind an existing proxy. Polls, ballots and tallies stay in the
+// proxy and config.json keeps pointing at it, so the frontend needs no changes.
+//
+//   UPGRADER_PRIVATE_KEY=0x... npx hardhat run deploy/upgrade.ts --network sepolia
+//
+// UPGRADER_PRIVATE_KEY must own the ProxyAdmin. Set UPGRADE_CALLDATA to run a migration
+// (e.g. a reinitializer on the new admin module) through the proxy in the same transaction.
+import hre, { ethers as hardhatEthers } from "hardhat";
+import { Contract, Wallet } from "ethers";
+import { deployImplementation, getProxyAdmin, readDeployment, writeDeployment } from "./votingService";
+
+const PROXY_ADMIN_ABI = [
+  "function owner() view returns (address)",
+  "function upgradeAndCall(address proxy, address implementation, bytes data) payable",
+];
+
+async function main() {
+  const privateKey = process.env.UPGRADER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("Set UPGRADER_PRIVATE_KEY to the key of the ProxyAdmin owner");
+  }
+
+  // Refuses layouts that would reinterpret the storage of existing polls
+  await hre.run("storage-layout:check");
+
+  const wallet = new Wallet(privateKey, hardhatEthers.provider);
+  const network = await hardhatEthers.provider.getNetwork();
+  const deployment = readDeployment(network.chainId);
+
+  const proxyAdmin = new Contract(await getProxyAdmin(wallet, deployment.proxy), PROXY_ADMIN_ABI, wallet);
+  const owner: string = await proxyAdmin.owner();
+  if (owner.toLowerCase() !== wallet.address.toLowerCase()) {
+    throw new Error(`ProxyAdmin is owned by ${owner}, not ${wallet.address}`);
+  }
+
+  console.log("Upgrading VotingService proxy:", deployment.proxy);
+  console.log("Previous implementation:", deployment.implementation);
+
+  const { rankedChoiceCounting, confidentialWeighting, adminModule, implementation } = await deployImplementation(
+    wallet,
+    deployment.tenantRegistry
+  );
+
+  const data = process.env.UPGRADE_CALLDATA ?? "0x";
+  const tx = await proxyAdmin.upgradeAndCall(deployment.proxy, implementation, data);
+  await tx.wait();
+  console.log("Upgraded in transaction:", tx.hash);
+
+  writeDeployment({
+    ...deployment,
+    implementation,
+    adminModule,
+    rankedChoiceCounting,
+    confidentialWeighting,
+    updatedAt: new Date().toISOString(),
+  });
+
+  // The deployed layout is the baseline the next upgrade is checked against; commit it
+  await hre.run("storage-layout:snapshot");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+// deploy/votingService.ts
+import fs from "fs";
+import path from "path";
+import { ethers as hardhatEthers } from "hardhat";
+import { Signer, ethers } from "ethers";
+
+// ERC-1967 slot holding the proxy's ProxyAdmin
+const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
+// Delay between queueing and executing a passed poll's calls; the timelock can change it itself
+const POLL_TIMELOCK_DELAY = 24 * 60 * 60;
+
+export interface VotingServiceDeployment {
+  chainId: string;
+  proxy: string;
+  proxyAdmin: string;
+  implementation: string;
+  adminModule: string;
+  rankedChoiceCounting: string;
+  confidentialWeighting: string;
+  tenantRegistry: string;
+  reader: string;
+  pollTimelock: string;
+  updatedAt: string;
+}
+
+export function deploymentPath(chainId: bigint | string): string {
+  return path.join(__dirname, "..", "deployments", `${chainId}.json`);
+}
+
+export function readDeployment(chainId: bigint | string): VotingServiceDeployment {
+  const file = deploymentPath(chainId);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No VotingService deployment recorded for chain ${chainId} (${file})`);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function writeDeployment(deployment: VotingServiceDeployment) {
+  const file = deploymentPath(deployment.chainId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(deployment, null, 2));
+  console.log(`Wrote deployment record: ${path.relative(path.join(__dirname, ".."), file)}`);
+}
+
+async function deploy(name: string, signer: Signer, args: unknown[] = [], libraries?: Record<string, string>) {
+  const factory = await hardhatEthers.getContractFactory(name, { signer, libraries });
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+
+  const address = await contract.getAddress();
+  console.log(`${name} deployed at:`, address);
+  return address;
+}
+
+/**
+ * Deploy a VotingService implementation together with the libraries and admin module its code
+ * is bound to. Existing polls live in the proxy, so these can be replaced on every upgrade.
+ */
+export async function deployImplementation(signer: Signer, tenantRegistry: string) {
+  const rankedChoiceCounting = await deploy("RankedChoiceCounting", signer);
+  const confidentialWeighting = await deploy("ConfidentialWeighting", signer);
+  const libraries = { ConfidentialWeighting: confidentialWeighting, RankedChoiceCounting: rankedChoiceCounting };
+  const adminModule = await deploy("VotingServiceAdmin", signer, [tenantRegistry], libraries);
+  const implementation = await deploy("VotingService", signer, [tenantRegistry, adminModule], libraries);
+  return { rankedChoiceCounting, confidentialWeighting, adminModule, implementation };
+}
+
+/**
+ * First deployment: the tenant registry, an implementation, the proxy in front of it and
+ * a reader and a poll timelock bound to the proxy. `owner` becomes the owner of the proxy's
+ * ProxyAdmin and the timelock's admin; the timelock takes no calls until its admin sets a policy.
+ */
+export async function deployVotingService(signer: Signer, owner: string): Promise<VotingServiceDeployment> {
+  const tenantRegistry = await deploy("TenantRegistry", signer);
+  const { rankedChoiceCounting, confidentialWeighting, adminModule, implementation } = await deployImplementation(
+    signer,
+    tenantRegistry
+  );
+
+  const initializeData = new ethers.Interface(["function initialize()"]).encodeFunctionData("initialize");
+  const proxy = await deploy("VotingServiceProxy", signer, [implementation, owner, initializeData]);
+  const proxyAdmin = await getProxyAdmin(signer, proxy);
+  const reader = await deploy("VotingServiceReader", signer, [proxy]);
+  const pollTimelock = await deploy("PollTimelock", signer, [proxy, owner, POLL_TIMELOCK_DELAY]);
+
+  const network = await signer.provider!.getNetwork();
+  return {
+    chainId: network.chainId.toString(),
+    proxy,
+    proxyAdmin,
+    implementation,
+    adminModule,
+    rankedChoiceCounting,
+    confidentialWeighting,
+    tenantRegistry,
+    reader,
+    pollTimelock,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export async function getProxyAdmin(signer: Signer, proxy: string): Promise<string> {
+  const slot = await signer.provider!.getStorage(proxy, ADMIN_SLOT);
+  return ethers.getAddress(ethers.dataSlice(slot, 12));
+}
@@ -0,0 +1,96 @@
+/**
+ * Signed Ballots - Universal SDK
+ * EIP-712 ballots that a relayer submits through VotingService.castVoteBySig
+ */
+
+import { ethers } from 'ethers';
+import { createEncryptedInput } from './fhevm.js';
+
+/**
+ * Mirrors VotingService.BALLOT_TYPEHASH - keep the field order in sync with the contract
+ */
+export const BALLOT_TYPES = {
+  Ballot: [
+    { name: 'pollId', type: 'bytes32' },
+    { name: 'encryptedVote', type: 'bytes32' },
+    { name: 'inputProof', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface SignedBallot {
+  pollId: string;
+  encryptedVote: string;
+  inputProof: string;
+  voter: string;
+  nonce: bigint;
+  deadline: number;
+  signature: string;
+}
+
+/**
+ * EIP-712 domain of a VotingService deployment
+ */
+export async function getBallotDomain(contract: ethers.Contract): Promise<ethers.TypedDataDomain> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error('Contract is not connected to a provider');
+
+  const network = await provider.getNetwork();
+  return {
+    name: 'VotingService',
+    version: '1',
+    chainId: network.chainId,
+    verifyingContract: await contract.getAddress(),
+  };
+}
+
+/**
+ * Encrypt an option for a relayed ballot. The contract checks the input proof against
+ * the account that submits the transaction, so the ballot is encrypted for the relayer.
+ */
+export async function encryptRelayedBallot(contractAddress: string, relayerAddress: string, option: number) {
+  return createEncryptedInput(contractAddress, relayerAddress, option);
+}
+
+/**
+ * Sign a ballot with the voter's wallet. No transaction is sent and no gas is needed.
+ */
+export async function signBallot(
+  contract: ethers.Contract,
+  signer: ethers.Signer,
+  ballot: { pollId: string; encryptedVote: string; inputProof: string; deadline: number }
+): Promise<SignedBallot> {
+  const voter = await signer.getAddress();
+  const nonce: bigint = await contract.nonces(voter);
+  const domain = await getBallotDomain(contract);
+
+  const signature = await signer.signTypedData(domain, BALLOT_TYPES, {
+    pollId: ballot.pollId,
+    encryptedVote: ballot.encryptedVote,
+    inputProof: ballot.inputProof,
+    nonce,
+    deadline: ballot.deadline,
+  });
+
+  return { ...ballot, voter, nonce, signature };
+}
+
+/**
+ * Submit a signed ballot from the relayer's account
+ */
+export async function relayBallot(
+  contract: ethers.Contract,
+  ballot: SignedBallot,
+  eligibilityProof: string[] = []
+): Promise<ethers.ContractTransactionResponse> {
+  return contract.castVoteBySig(
+    ballot.pollId,
+    ballot.encryptedVote,
+    ballot.inputProof,
+    eligibilityProof,
+    ballot.voter,
+    ballot.deadline,
+    ballot.signature
+  );
+}
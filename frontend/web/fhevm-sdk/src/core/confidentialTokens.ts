@@ -0,0 +1,69 @@
+/**
+ * Confidential Token Polls - Universal SDK
+ * Polls gated or weighted by an ERC-7984 token balance that stays encrypted
+ */
+
+import { ethers } from 'ethers';
+
+const CONFIDENTIAL_TOKEN_ABI = [
+  'function confidentialBalanceOf(address account) view returns (bytes32)',
+  'function setOperator(address operator, uint48 until)',
+];
+
+const ACL_ABI = ['function allow(bytes32 handle, address account)'];
+
+/**
+ * Mirrors VotingService.getConfidentialToken
+ */
+export interface ConfidentialTokenSettings {
+  token: string;
+  minBalance: bigint;
+  weightUnit: bigint;
+}
+
+/**
+ * Read a poll's confidential token settings; `token` is the zero address for other polls
+ */
+export async function getConfidentialTokenSettings(
+  contract: ethers.Contract,
+  pollId: string
+): Promise<ConfidentialTokenSettings> {
+  const [token, minBalance, weightUnit] = await contract.getConfidentialToken(pollId);
+  return { token, minBalance, weightUnit };
+}
+
+/**
+ * Let VotingService move the voter's tokens until `until` (a unix timestamp). Voting on a
+ * token-gated poll moves the whole balance into escrow, so this must cover the moment of
+ * voting; withdrawConfidentialTokens returns the tokens once voting is over.
+ */
+export async function approveConfidentialEscrow(
+  signer: ethers.Signer,
+  tokenAddress: string,
+  votingServiceAddress: string,
+  until: number
+): Promise<ethers.ContractTransactionResponse> {
+  const token = new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, signer);
+  return token.setOperator(votingServiceAddress, until);
+}
+
+/**
+ * Let VotingService compute on the voter's encrypted balance. Every transfer gives the
+ * balance a new handle, so this is needed again whenever the balance changed since the
+ * last share. Returns null when the voter has no balance yet, which needs no sharing.
+ */
+export async function shareConfidentialBalance(
+  signer: ethers.Signer,
+  tokenAddress: string,
+  aclAddress: string,
+  votingServiceAddress: string
+): Promise<ethers.ContractTransactionResponse | null> {
+  const token = new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, signer);
+  const handle: string = await token.confidentialBalanceOf(await signer.getAddress());
+  if (handle === ethers.ZeroHash) {
+    return null;
+  }
+
+  const acl = new ethers.Contract(aclAddress, ACL_ABI, signer);
+  return acl.allow(handle, votingServiceAddress);
+}
@@ -0,0 +1,137 @@
+/**
+ * Voter Eligibility Lists - Universal SDK
+ * Builds the Merkle tree and proofs checked by VotingService.castVote
+ */
+
+import { ethers } from 'ethers';
+
+export interface EligibilityTree {
+  root: string;
+  voters: string[];
+  layers: string[][];
+}
+
+/**
+ * Parse a CSV of voter addresses. The first column of each row is used;
+ * a header row and blank lines are skipped, duplicates are dropped.
+ */
+export function parseAddressCsv(csv: string): string[] {
+  const voters = new Set<string>();
+  const rows = csv.split(/\r?\n/);
+
+  rows.forEach((row, index) => {
+    const cell = row.split(',')[0].trim().replace(/^"|"$/g, '');
+    if (!cell) return;
+
+    // Tolerate a header row, reject anything else that is not an address
+    if (index === 0 && !cell.startsWith('0x')) return;
+    if (!ethers.isAddress(cell)) {
+      throw new Error(`Invalid address on line ${index + 1}: ${cell}`);
+    }
+    voters.add(ethers.getAddress(cell));
+  });
+
+  return Array.from(voters);
+}
+
+/**
+ * Leaf hash for a voter, matching the contract's double-hashed abi.encode(address)
+ */
+export function hashEligibilityLeaf(voter: string): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['address'], [voter]);
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Build the layers of a sorted-pair Merkle tree over `leaves`, in the order given.
+ * The last layer holds the root.
+ */
+export function buildMerkleLayers(leaves: string[]): string[][] {
+  const layers: string[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      // An unpaired node is promoted to the next layer unchanged
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+/**
+ * Sibling hashes from the leaf at `index` up to the root
+ */
+export function getMerkleProof(layers: string[][], index: number): string[] {
+  const proof: string[] = [];
+  for (const layer of layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Check that `proof` leads from `leaf` to `root`
+ */
+export function verifyMerkleProof(root: string, leaf: string, proof: string[]): boolean {
+  return proof.reduce(hashPair, leaf) === root;
+}
+
+/**
+ * Build the eligibility tree for a list of voter addresses
+ */
+export function buildEligibilityTree(voters: string[]): EligibilityTree {
+  const unique = Array.from(new Set(voters.map(voter => ethers.getAddress(voter))));
+  if (unique.length === 0) {
+    throw new Error('Eligibility list is empty');
+  }
+
+  const leaves = unique
+    .map(hashEligibilityLeaf)
+    .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0));
+
+  const layers = buildMerkleLayers(leaves);
+
+  return {
+    root: layers[layers.length - 1][0],
+    voters: unique,
+    layers,
+  };
+}
+
+/**
+ * Build the eligibility tree from a CSV of voter addresses
+ */
+export function buildEligibilityTreeFromCsv(csv: string): EligibilityTree {
+  return buildEligibilityTree(parseAddressCsv(csv));
+}
+
+/**
+ * Get the proof to pass as `eligibilityProof` to castVote
+ */
+export function getEligibilityProof(tree: EligibilityTree, voter: string): string[] {
+  const leaf = hashEligibilityLeaf(ethers.getAddress(voter));
+  const index = tree.layers[0].indexOf(leaf);
+  if (index === -1) {
+    throw new Error(`Address ${voter} is not in the eligibility list`);
+  }
+  return getMerkleProof(tree.layers, index);
+}
+
+/**
+ * Check a proof locally before submitting a vote
+ */
+export function verifyEligibilityProof(root: string, voter: string, proof: string[]): boolean {
+  return verifyMerkleProof(root, hashEligibilityLeaf(ethers.getAddress(voter)), proof);
+}
@@ -0,0 +1,155 @@
+/**
+ * VotingService Events - Universal SDK
+ * Decodes schema 3 lifecycle logs, keyed by bytes32 poll ID, into typed objects
+ */
+
+import { ethers } from 'ethers';
+import { VOTING_SERVICE_ABI, toPollId } from './polls.js';
+
+/**
+ * Mirrors VotingService.EVENT_SCHEMA_VERSION
+ */
+export const EVENT_SCHEMA_VERSION = 3;
+
+interface PollEventBase {
+  pollId: string;
+  tenantId: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface PollCreatedEvent extends PollEventBase {
+  type: 'PollCreated';
+  slug: string;
+  creator: string;
+  owner: string;
+  pollType: number;
+  optionCount: number;
+  startTime: number;
+  endTime: number;
+}
+
+export interface VoteCastEvent extends PollEventBase {
+  type: 'VoteCast';
+  voter: string;
+  ballotIndex: number;
+  weight: number;
+  replaced: boolean;
+  timestamp: number;
+}
+
+export interface PollClosedEvent extends PollEventBase {
+  type: 'PollClosed';
+  closedBy: string;
+  totalVotes: number;
+  endTime: number;
+  closedAt: number;
+}
+
+export interface TalliesDecryptedEvent extends PollEventBase {
+  type: 'TalliesDecrypted';
+  tallies: number[];
+  invalidBallots: number;
+  totalVotes: number;
+}
+
+export type VotingServiceEvent = PollCreatedEvent | VoteCastEvent | PollClosedEvent | TalliesDecryptedEvent;
+
+const EVENT_NAMES = ['PollCreatedV3', 'VoteCastV3', 'PollClosedV3', 'TalliesDecryptedV3'];
+
+const eventInterface = new ethers.Interface(VOTING_SERVICE_ABI);
+
+/**
+ * Decode a raw VotingService log. Returns null for logs that are not schema 3
+ * lifecycle events, and throws if a PollCreated slug doesn't hash to its poll ID.
+ */
+export function decodeVotingServiceLog(log: ethers.Log): VotingServiceEvent | null {
+  const parsed = eventInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed || !EVENT_NAMES.includes(parsed.name)) {
+    return null;
+  }
+
+  const args = parsed.args;
+  const base: PollEventBase = {
+    pollId: args.pollId,
+    tenantId: args.tenantId,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+
+  switch (parsed.name) {
+    case 'PollCreatedV3':
+      if (toPollId(args.slug) !== args.pollId) {
+        throw new Error(`Log ${log.transactionHash}:${log.index} has a slug that doesn't match its poll ID`);
+      }
+      return {
+        ...base,
+        type: 'PollCreated',
+        slug: args.slug,
+        creator: args.creator,
+        owner: args.owner,
+        pollType: Number(args.pollType),
+        optionCount: Number(args.optionCount),
+        startTime: Number(args.startTime),
+        endTime: Number(args.endTime),
+      };
+    case 'VoteCastV3':
+      return {
+        ...base,
+        type: 'VoteCast',
+        voter: args.voter,
+        ballotIndex: Number(args.ballotIndex),
+        weight: Number(args.weight),
+        replaced: args.replaced,
+        timestamp: Number(args.timestamp),
+      };
+    case 'PollClosedV3':
+      return {
+        ...base,
+        type: 'PollClosed',
+        closedBy: args.closedBy,
+        totalVotes: Number(args.totalVotes),
+        endTime: Number(args.endTime),
+        closedAt: Number(args.closedAt),
+      };
+    default:
+      return {
+        ...base,
+        type: 'TalliesDecrypted',
+        tallies: args.tallies.map(Number),
+        invalidBallots: Number(args.invalidBallots),
+        totalVotes: Number(args.totalVotes),
+      };
+  }
+}
+
+/**
+ * Decode a batch of logs, skipping those that are not schema 3 lifecycle events
+ */
+export function decodeVotingServiceLogs(logs: ethers.Log[]): VotingServiceEvent[] {
+  return logs
+    .map(decodeVotingServiceLog)
+    .filter((event): event is VotingServiceEvent => event !== null);
+}
+
+/**
+ * Fetch and decode the lifecycle events of one poll, or of every poll when pollId is omitted
+ */
+export async function getPollEvents(
+  provider: ethers.Provider,
+  contractAddress: string,
+  pollId?: string,
+  fromBlock: ethers.BlockTag = 0,
+  toBlock: ethers.BlockTag = 'latest'
+): Promise<VotingServiceEvent[]> {
+  const topics = EVENT_NAMES.map(name => eventInterface.getEvent(name)!.topicHash);
+  const logs = await provider.getLogs({
+    address: contractAddress,
+    topics: [topics, pollId ?? null],
+    fromBlock,
+    toBlock,
+  });
+  return decodeVotingServiceLogs(logs);
+}
@@ -0,0 +1,120 @@
+/**
+ * Confidential Governor - Universal SDK
+ * IGovernor proposals whose votes are cast and counted encrypted on VotingService polls
+ */
+
+import { ethers } from 'ethers';
+import { castVote } from './polls.js';
+
+/**
+ * Mirrors IGovernor.ProposalState - keep the order in sync with the contract
+ */
+export enum ProposalState {
+  Pending = 0,
+  Active = 1,
+  Canceled = 2,
+  Defeated = 3,
+  Succeeded = 4,
+  Queued = 5,
+  Expired = 6,
+  Executed = 7,
+}
+
+export const PROPOSAL_STATE_LABELS: Record<ProposalState, string> = {
+  [ProposalState.Pending]: 'Pending',
+  [ProposalState.Active]: 'Active',
+  [ProposalState.Canceled]: 'Canceled',
+  [ProposalState.Defeated]: 'Defeated',
+  [ProposalState.Succeeded]: 'Succeeded',
+  [ProposalState.Queued]: 'Queued',
+  [ProposalState.Expired]: 'Expired',
+  [ProposalState.Executed]: 'Executed',
+};
+
+/**
+ * Option indices of a proposal's poll, in GovernorCountingSimple's order
+ */
+export enum GovernorSupport {
+  Against = 0,
+  For = 1,
+  Abstain = 2,
+}
+
+/**
+ * Human-readable ABI for ConfidentialGovernor. The standard IGovernor surface is inherited
+ * from OpenZeppelin's Governor; castVote and its variants always revert.
+ */
+export const CONFIDENTIAL_GOVERNOR_ABI = [
+  'function name() view returns (string)',
+  'function votingService() view returns (address)',
+  'function propose(address[] targets, uint256[] values, bytes[] calldatas, string description) returns (uint256 proposalId)',
+  'function execute(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) payable returns (uint256 proposalId)',
+  'function cancel(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) returns (uint256 proposalId)',
+  'function hashProposal(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) pure returns (uint256)',
+  'function state(uint256 proposalId) view returns (uint8)',
+  'function proposalSnapshot(uint256 proposalId) view returns (uint256)',
+  'function proposalDeadline(uint256 proposalId) view returns (uint256)',
+  'function proposalProposer(uint256 proposalId) view returns (address)',
+  'function proposalPoll(uint256 proposalId) view returns (bytes32)',
+  'function proposalVotes(uint256 proposalId) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)',
+  'function closeProposalPoll(uint256 proposalId)',
+  'function hasVoted(uint256 proposalId, address account) view returns (bool)',
+  'function quorum(uint256 timepoint) view returns (uint256)',
+  'function votingDelay() view returns (uint256)',
+  'function votingPeriod() view returns (uint256)',
+  'function eligibilityRoot() view returns (bytes32)',
+  'function tenantId() view returns (bytes32)',
+  'function tenantName() view returns (string)',
+  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)',
+  'event ProposalExecuted(uint256 proposalId)',
+  'event ProposalCanceled(uint256 proposalId)',
+];
+
+export interface ProposalVotes {
+  againstVotes: number;
+  forVotes: number;
+  abstainVotes: number;
+}
+
+/**
+ * VotingService poll a proposal is voted on
+ */
+export async function getProposalPollId(governor: ethers.Contract, proposalId: bigint): Promise<string> {
+  return governor.proposalPoll(proposalId);
+}
+
+/**
+ * Cast an encrypted vote on a proposal. The ballot goes to the proposal's poll on
+ * VotingService, so `encryptedVote` must be encrypted for the service's address and hold
+ * a GovernorSupport value.
+ */
+export async function castGovernorVote(
+  governor: ethers.Contract,
+  votingService: ethers.Contract,
+  proposalId: bigint,
+  encryptedVote: string,
+  inputProof: string,
+  eligibilityProof: string[] = []
+): Promise<ethers.ContractTransactionResponse> {
+  const pollId = await getProposalPollId(governor, proposalId);
+  return castVote(votingService, pollId, encryptedVote, inputProof, eligibilityProof);
+}
+
+/**
+ * A proposal's state, read through the governor
+ */
+export async function getProposalState(governor: ethers.Contract, proposalId: bigint): Promise<ProposalState> {
+  return Number(await governor.state(proposalId)) as ProposalState;
+}
+
+/**
+ * A proposal's revealed counts. Throws until its poll's tallies are verified.
+ */
+export async function getProposalVotes(governor: ethers.Contract, proposalId: bigint): Promise<ProposalVotes> {
+  const votes = await governor.proposalVotes(proposalId);
+  return {
+    againstVotes: Number(votes.againstVotes),
+    forVotes: Number(votes.forVotes),
+    abstainVotes: Number(votes.abstainVotes),
+  };
+}
@@ -6,4 +6,14 @@
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
 export * from './contracts.js';
+export * from './eligibility.js';
+export * from './polls.js';
+export * from './metadata.js';
+export * from './results.js';
+export * from './events.js';
+export * from './ballots.js';
+export * from './tenants.js';
+export * from './governor.js';
+export * from './timelock.js';
+export * from './confidentialTokens.js';
 
@@ -0,0 +1,108 @@
+/**
+ * Poll Metadata - Universal SDK
+ * Ballot text stored on-chain, or in an off-chain document pinned by its keccak256 hash
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Schema version written by this SDK
+ */
+export const POLL_METADATA_SCHEMA_VERSION = 1;
+
+/**
+ * Mirrors VotingService.PollMetadata
+ */
+export interface PollMetadata {
+  description: string;
+  options: string[];
+  contentHash: string;
+  schemaVersion: number;
+}
+
+/**
+ * Off-chain metadata document, e.g. pinned to IPFS
+ */
+export interface PollMetadataDocument {
+  schemaVersion: number;
+  question: string;
+  description: string;
+  options: string[];
+}
+
+/**
+ * Serialise a metadata document. Keys are written in a fixed order so the same
+ * document always hashes to the same value.
+ */
+export function encodePollMetadataDocument(document: PollMetadataDocument): string {
+  return JSON.stringify({
+    schemaVersion: document.schemaVersion,
+    question: document.question,
+    description: document.description,
+    options: document.options,
+  });
+}
+
+/**
+ * Content hash of a metadata document, as stored in PollMetadata.contentHash
+ */
+export function hashPollMetadataDocument(document: string | Uint8Array): string {
+  return ethers.keccak256(typeof document === 'string' ? ethers.toUtf8Bytes(document) : document);
+}
+
+/**
+ * Read a poll's metadata through getPollMetadata
+ */
+export async function getPollMetadata(contract: ethers.Contract, pollId: string): Promise<PollMetadata> {
+  const metadata = await contract.getPollMetadata(pollId);
+  return {
+    description: metadata.description,
+    options: [...metadata.options],
+    contentHash: metadata.contentHash,
+    schemaVersion: Number(metadata.schemaVersion),
+  };
+}
+
+/**
+ * Check a locally supplied metadata document against the poll's on-chain content hash
+ * and return it parsed. Throws if the document was altered or doesn't fit the poll.
+ */
+export async function verifyPollMetadataDocument(
+  contract: ethers.Contract,
+  pollId: string,
+  document: string | Uint8Array
+): Promise<PollMetadataDocument> {
+  const [metadata, details] = await Promise.all([getPollMetadata(contract, pollId), contract.getPollDetails(pollId)]);
+
+  if (metadata.contentHash === ethers.ZeroHash) {
+    throw new Error(`Poll ${pollId} has no metadata document`);
+  }
+  const hash = hashPollMetadataDocument(document);
+  if (hash !== metadata.contentHash) {
+    throw new Error(`Metadata document hash ${hash} does not match ${metadata.contentHash} for poll ${pollId}`);
+  }
+
+  const parsed: PollMetadataDocument = JSON.parse(
+    typeof document === 'string' ? document : ethers.toUtf8String(document)
+  );
+  if (parsed.schemaVersion !== metadata.schemaVersion) {
+    throw new Error(`Metadata document has schema version ${parsed.schemaVersion}, poll declares ${metadata.schemaVersion}`);
+  }
+  if (!Array.isArray(parsed.options) || parsed.options.length !== Number(details.optionCount)) {
+    throw new Error(`Metadata document must list ${details.optionCount} options`);
+  }
+  return parsed;
+}
+
+/**
+ * Labels to show on the ballot: on-chain labels first, then a verified document's,
+ * falling back to "Option N"
+ */
+export function getOptionLabels(
+  metadata: PollMetadata,
+  optionCount: number,
+  document?: PollMetadataDocument
+): string[] {
+  const labels = metadata.options.length > 0 ? metadata.options : document?.options ?? [];
+  return Array.from({ length: optionCount }, (_, option) => labels[option] || `Option ${option}`);
+}
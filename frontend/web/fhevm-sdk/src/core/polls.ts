@@ -0,0 +1,391 @@
+/**
+ * VotingService Poll Views - Universal SDK
+ * Typed mirrors of the poll lifecycle exposed by the contract
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Mirrors VotingService.PollStatus - keep the order in sync with the contract
+ */
+export enum PollStatus {
+  Scheduled = 0,
+  Active = 1,
+  Ended = 2,
+  Closed = 3,
+  Cancelled = 4,
+}
+
+export const POLL_STATUS_LABELS: Record<PollStatus, string> = {
+  [PollStatus.Scheduled]: 'Scheduled',
+  [PollStatus.Active]: 'Voting open',
+  [PollStatus.Ended]: 'Awaiting close',
+  [PollStatus.Closed]: 'Closed',
+  [PollStatus.Cancelled]: 'Cancelled',
+};
+
+/**
+ * Mirrors VotingService.EligibilityMode - keep the order in sync with the contract
+ */
+export enum EligibilityMode {
+  Open = 0,
+  Allowlist = 1,
+  Nft = 2,
+}
+
+export const ELIGIBILITY_MODE_LABELS: Record<EligibilityMode, string> = {
+  [EligibilityMode.Open]: 'Open to everyone',
+  [EligibilityMode.Allowlist]: 'Allowlisted voters',
+  [EligibilityMode.Nft]: 'One vote per NFT',
+};
+
+/**
+ * Human-readable ABI for the VotingService calls used by the SDK and the app
+ */
+export const VOTING_SERVICE_ABI = [
+  'function createPoll(string slug, string question, tuple(uint8 pollType, uint8 optionCount, uint256 startTime, uint256 duration, bool voterCanDecrypt, bool allowRevote, uint32 quorum, uint16 approvalBps, bool hideCounts, bytes32 eligibilityRoot, address weightToken, uint256 weightSnapshotId, uint256 weightUnit, address eligibilityNft, address confidentialToken, uint64 confidentialMinBalance, uint64 confidentialWeightUnit) config, tuple(string description, string[] options, bytes32 contentHash, uint16 schemaVersion) metadata) returns (bytes32 pollId)',
+  'function castVote(bytes32 pollId, bytes32 encryptedVote, bytes inputProof, bytes32[] eligibilityProof)',
+  'function castVote(bytes32 pollId, uint256 tokenId, bytes32 encryptedVote, bytes inputProof)',
+  'function castVoteBySig(bytes32 pollId, bytes32 encryptedVote, bytes inputProof, bytes32[] eligibilityProof, address voter, uint256 deadline, bytes signature)',
+  'function nonces(address voter) view returns (uint256)',
+  'function closePoll(bytes32 pollId)',
+  'function verifyTallies(bytes32 pollId, bytes abiEncodedClearTallies, bytes decryptionProof)',
+  'function verifyTalliesBatch(bytes32[] batchPollIds, bytes abiEncodedClearTallies, bytes decryptionProof)',
+  'function getPollDetails(bytes32 pollId) view returns (string question, uint256 startTime, uint256 endTime, uint8 optionCount, uint32 totalVotes, uint8 status, uint8 eligibilityMode)',
+  'function getPollCount() view returns (uint256)',
+  'function getPollTenant(bytes32 pollId) view returns (bytes32)',
+  'function getPollSlug(bytes32 pollId) view returns (string)',
+  'function getTenantPollCount(bytes32 tenantId) view returns (uint256)',
+  'function getPollOwner(bytes32 pollId) view returns (address)',
+  'function getPollMetadata(bytes32 pollId) view returns (string description, string[] options, bytes32 contentHash, uint16 schemaVersion)',
+  'function hasVoted(bytes32 pollId, address voter) view returns (bool)',
+  'function hasTokenVoted(bytes32 pollId, uint256 tokenId) view returns (bool)',
+  'function getEligibilityNft(bytes32 pollId) view returns (address)',
+  'function getConfidentialToken(bytes32 pollId) view returns (address token, uint64 minBalance, uint64 weightUnit)',
+  'function withdrawConfidentialTokens(bytes32 pollId)',
+  'function getPollRules(bytes32 pollId) view returns (tuple(uint32 quorum, uint16 approvalBps, bytes32 eligibilityRoot, address eligibilityNft, address weightToken, uint256 weightSnapshotId, uint256 weightUnit, address confidentialToken, uint64 confidentialMinBalance, uint64 confidentialWeightUnit, uint256 duration))',
+  'function delegate(bytes32 pollId, address delegatee, bytes32[] eligibilityProof)',
+  'function undelegate(bytes32 pollId)',
+  'function setTenantDelegate(bytes32 tenantId, address delegatee)',
+  'function claimTenantDelegation(bytes32 pollId, address delegator, bytes32[] eligibilityProof)',
+  'function getDelegate(bytes32 pollId, address delegator) view returns (address)',
+  'function tenantDelegates(bytes32 tenantId, address delegator) view returns (address)',
+  'event DelegateChanged(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed delegator, address delegatee)',
+  'event TenantDelegateChanged(bytes32 indexed tenantId, address indexed delegator, address indexed delegatee)',
+  'event ConfidentialTokensWithdrawn(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed voter)',
+  'function getEncryptedTallies(bytes32 pollId) view returns (bytes32[])',
+  'function areTalliesVerified(bytes32 pollId) view returns (bool)',
+  'function getPollResults(bytes32 pollId) view returns (uint32[])',
+  'function getEncryptedInvalidBallots(bytes32 pollId) view returns (bytes32)',
+  'function getInvalidBallotCount(bytes32 pollId) view returns (uint32)',
+  'function finalizeBallotRoot(bytes32 pollId, uint256 maxBallots) returns (bool)',
+  'function isBallotRootFinalized(bytes32 pollId) view returns (bool)',
+  'function getResultRecord(bytes32 pollId) view returns (tuple(bytes32 proofHash, uint256 finalizedBlock, bytes32 ballotRoot, uint256 ballotCount) record, uint32[] tallies, uint32 invalidBallots)',
+  'event PollCreatedV3(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed creator, string slug, address owner, uint8 pollType, uint8 optionCount, uint256 startTime, uint256 endTime)',
+  'event VoteCastV3(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed voter, uint256 ballotIndex, uint32 weight, bool replaced, uint256 timestamp)',
+  'event PollClosedV3(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed closedBy, uint32 totalVotes, uint256 endTime, uint256 closedAt)',
+  'event TalliesDecryptedV3(bytes32 indexed pollId, bytes32 indexed tenantId, uint32[] tallies, uint32 invalidBallots, uint32 totalVotes)',
+  'event PollFinalized(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32 ballotRoot, uint256 ballotCount, bytes32 proofHash)',
+  'event BallotRelayed(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed voter, address relayer)',
+  'event TalliesReleased(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32[] handles)',
+  'event OutcomeReleased(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32 quorumMetHandle, bytes32 passedHandle)',
+  'event OutcomeDecrypted(bytes32 indexed pollId, bytes32 indexed tenantId, bool quorumMet, bool passed)',
+  'event PollOwnershipTransferred(bytes32 indexed pollId, bytes32 indexed tenantId, address previousOwner, address indexed newOwner)',
+  'event CoOwnerAdded(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed coOwner)',
+  'event CoOwnerRemoved(bytes32 indexed pollId, bytes32 indexed tenantId, address indexed coOwner)',
+  'event PollExtended(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 previousEndTime, uint256 newEndTime)',
+  'event PollCancelled(bytes32 indexed pollId, bytes32 indexed tenantId, string reason)',
+  'event EligibilityRootUpdated(bytes32 indexed pollId, bytes32 indexed tenantId, bytes32 previousRoot, bytes32 newRoot)',
+  'event RankedRoundTallied(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 round, bytes32[] handles)',
+  'event RankedRoundCompleted(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 round, uint32[] counts, uint8 eliminatedOption)',
+  'event RankedChoiceWinner(bytes32 indexed pollId, bytes32 indexed tenantId, uint256 round, uint8 winner)',
+];
+
+/**
+ * Human-readable ABI for VotingServiceReader
+ */
+export const VOTING_SERVICE_READER_ABI = [
+  'function getPollsPage(bytes32 tenantId, uint256 offset, uint256 limit) view returns (tuple(bytes32 pollId, string slug, string question, address creator, bytes32 tenantId, uint256 startTime, uint256 endTime, uint8 optionCount, uint32 totalVotes, uint8 status, uint8 eligibilityMode)[] page, uint256 total)',
+  'function findPolls(tuple(bool filterByStatus, uint8 status, bytes32 tenantId, address creator, uint256 fromTime, uint256 toTime) filter, uint256 cursor, uint256 limit, uint256 scanSize) view returns (tuple(bytes32 pollId, string slug, string question, address creator, bytes32 tenantId, uint256 startTime, uint256 endTime, uint8 optionCount, uint32 totalVotes, uint8 status, uint8 eligibilityMode)[] page, uint256 nextCursor)',
+  'function getPollVotesPage(bytes32 pollId, uint256 offset, uint256 limit) view returns (tuple(bytes32 encryptedVote, address voter, uint256 timestamp, uint32 weight)[] page, uint256 total)',
+];
+
+/**
+ * Poll ID for a slug, as computed by createPoll: keccak256 of the slug's UTF-8 bytes
+ */
+export function toPollId(slug: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(slug));
+}
+
+export interface PollDetails {
+  pollId: string;
+  question: string;
+  startTime: number;
+  endTime: number;
+  optionCount: number;
+  totalVotes: number;
+  status: PollStatus;
+  eligibilityMode: EligibilityMode;
+}
+
+/**
+ * Read a poll through getPollDetails and normalise the result
+ */
+export async function getPollDetails(contract: ethers.Contract, pollId: string): Promise<PollDetails> {
+  const details = await contract.getPollDetails(pollId);
+  return {
+    pollId,
+    question: details.question,
+    startTime: Number(details.startTime),
+    endTime: Number(details.endTime),
+    optionCount: Number(details.optionCount),
+    totalVotes: Number(details.totalVotes),
+    status: Number(details.status) as PollStatus,
+    eligibilityMode: Number(details.eligibilityMode) as EligibilityMode,
+  };
+}
+
+/**
+ * castVote is overloaded, so ethers needs the full signature to pick a variant
+ */
+export async function castVote(
+  contract: ethers.Contract,
+  pollId: string,
+  encryptedVote: string,
+  inputProof: string,
+  eligibilityProof: string[] = []
+): Promise<ethers.ContractTransactionResponse> {
+  return contract['castVote(bytes32,bytes32,bytes,bytes32[])'](pollId, encryptedVote, inputProof, eligibilityProof);
+}
+
+/**
+ * Vote with an NFT in a one-vote-per-NFT poll. The sender must own the token.
+ */
+export async function castTokenVote(
+  contract: ethers.Contract,
+  pollId: string,
+  tokenId: bigint | number,
+  encryptedVote: string,
+  inputProof: string
+): Promise<ethers.ContractTransactionResponse> {
+  return contract['castVote(bytes32,uint256,bytes32,bytes)'](pollId, tokenId, encryptedVote, inputProof);
+}
+
+/**
+ * Whether ballots are currently accepted
+ */
+export function isPollOpen(poll: PollDetails): boolean {
+  return poll.status === PollStatus.Active;
+}
+
+export interface PollSummary extends PollDetails {
+  slug: string;
+  creator: string;
+  tenantId: string;
+}
+
+export interface BallotSummary {
+  encryptedVote: string;
+  voter: string;
+  timestamp: number;
+  weight: number;
+}
+
+export interface PollFilter {
+  status?: PollStatus;
+  tenantId?: string;
+  creator?: string;
+  fromTime?: number;
+  toTime?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export interface ScanPage<T> {
+  items: T[];
+  /** Where to resume the scan; 0 once every poll has been looked at */
+  nextCursor: number;
+}
+
+/** Polls VotingServiceReader.findPolls looks at per call, at most MAX_SCAN_SIZE */
+export const POLL_SCAN_SIZE = 200;
+
+/**
+ * Mirrors VotingServiceReader.PollSummary as ethers decodes it
+ */
+interface PollSummaryStruct {
+  pollId: string;
+  slug: string;
+  question: string;
+  creator: string;
+  tenantId: string;
+  startTime: bigint;
+  endTime: bigint;
+  optionCount: bigint;
+  totalVotes: bigint;
+  status: bigint;
+  eligibilityMode: bigint;
+}
+
+/**
+ * Mirrors VotingServiceReader.BallotSummary as ethers decodes it
+ */
+interface BallotSummaryStruct {
+  encryptedVote: string;
+  voter: string;
+  timestamp: bigint;
+  weight: bigint;
+}
+
+function toPollSummary(poll: PollSummaryStruct): PollSummary {
+  return {
+    pollId: poll.pollId,
+    slug: poll.slug,
+    question: poll.question,
+    creator: poll.creator,
+    tenantId: poll.tenantId,
+    startTime: Number(poll.startTime),
+    endTime: Number(poll.endTime),
+    optionCount: Number(poll.optionCount),
+    totalVotes: Number(poll.totalVotes),
+    status: Number(poll.status) as PollStatus,
+    eligibilityMode: Number(poll.eligibilityMode) as EligibilityMode,
+  };
+}
+
+/**
+ * Read one page of all polls, or of one tenant's, through VotingServiceReader
+ */
+export async function getPollsPage(
+  reader: ethers.Contract,
+  offset: number,
+  limit: number,
+  tenantId: string = ethers.ZeroHash
+): Promise<Page<PollSummary>> {
+  const [page, total]: [PollSummaryStruct[], bigint] = await reader.getPollsPage(tenantId, offset, limit);
+
+  return {
+    items: page.map(toPollSummary),
+    total: Number(total),
+  };
+}
+
+/**
+ * Find up to `limit` polls matching a filter, starting at `cursor`. Each call to the
+ * reader scans a bounded number of polls, so this keeps calling until the page is
+ * full or the list ends. Filtered listings have no total; page with nextCursor.
+ */
+export async function findPolls(
+  reader: ethers.Contract,
+  filter: PollFilter,
+  cursor: number,
+  limit: number
+): Promise<ScanPage<PollSummary>> {
+  const items: PollSummary[] = [];
+  let nextCursor = cursor;
+  do {
+    const [page, next]: [PollSummaryStruct[], bigint] = await reader.findPolls(
+      {
+        filterByStatus: filter.status !== undefined,
+        status: filter.status ?? 0,
+        tenantId: filter.tenantId ?? ethers.ZeroHash,
+        creator: filter.creator ?? ethers.ZeroAddress,
+        fromTime: filter.fromTime ?? 0,
+        toTime: filter.toTime ?? 0,
+      },
+      nextCursor,
+      limit - items.length,
+      POLL_SCAN_SIZE
+    );
+    items.push(...page.map(toPollSummary));
+    nextCursor = Number(next);
+  } while (items.length < limit && nextCursor !== 0);
+
+  return { items, nextCursor };
+}
+
+/**
+ * Read one page of a poll's ballots through VotingServiceReader
+ */
+export async function getPollVotesPage(
+  reader: ethers.Contract,
+  pollId: string,
+  offset: number,
+  limit: number
+): Promise<Page<BallotSummary>> {
+  const [page, total]: [BallotSummaryStruct[], bigint] = await reader.getPollVotesPage(pollId, offset, limit);
+
+  return {
+    items: page.map((ballot) => ({
+      encryptedVote: ballot.encryptedVote,
+      voter: ballot.voter,
+      timestamp: Number(ballot.timestamp),
+      weight: Number(ballot.weight),
+    })),
+    total: Number(total),
+  };
+}
+
+/**
+ * Handles verifyTallies checks for a plurality poll: the option tallies followed by
+ * the count of ballots that named no valid option
+ */
+export async function getTallyHandles(contract: ethers.Contract, pollId: string): Promise<string[]> {
+  const [tallies, invalidBallots] = await Promise.all([
+    contract.getEncryptedTallies(pollId),
+    contract.getEncryptedInvalidBallots(pollId),
+  ]);
+  return [...tallies, invalidBallots];
+}
+
+export interface PollTallies {
+  tallies: number[];
+  invalidBallots: number;
+}
+
+/**
+ * Split clear values for getTallyHandles' handles into tallies and the invalid-ballot count
+ */
+export function splitTallyValues(handles: string[], clearValues: { [handle: string]: bigint }): PollTallies {
+  const values = handles.map(handle => Number(clearValues[handle]));
+  return { tallies: values.slice(0, -1), invalidBallots: values[values.length - 1] };
+}
+
+export interface TallyBatch {
+  pollIds: string[];
+  handles: string[];
+  counts: number[];
+}
+
+/**
+ * Collect the tally handles of several closed polls in the order verifyTalliesBatch
+ * expects, so one publicDecryptV09(handles) call covers the whole batch
+ */
+export async function getTallyBatch(contract: ethers.Contract, pollIds: string[]): Promise<TallyBatch> {
+  const perPoll = await Promise.all(pollIds.map(pollId => getTallyHandles(contract, pollId)));
+  return {
+    pollIds,
+    handles: perPoll.flat(),
+    counts: perPoll.map(handles => handles.length),
+  };
+}
+
+/**
+ * Split the clear values of a batch back into per-poll results
+ */
+export function splitTallyBatch(
+  batch: TallyBatch,
+  clearValues: { [handle: string]: bigint }
+): Record<string, PollTallies> {
+  const results: Record<string, PollTallies> = {};
+  let offset = 0;
+  batch.pollIds.forEach((pollId, index) => {
+    const handles = batch.handles.slice(offset, offset + batch.counts[index]);
+    results[pollId] = splitTallyValues(handles, clearValues);
+    offset += batch.counts[index];
+  });
+  return results;
+}
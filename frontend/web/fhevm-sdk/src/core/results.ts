@@ -0,0 +1,181 @@
+/**
+ * Poll Result Records - Universal SDK
+ * Reads the record written when a poll's tallies are verified and proves ballots were counted
+ */
+
+import { ethers } from 'ethers';
+import { buildMerkleLayers, getMerkleProof, verifyMerkleProof } from './eligibility.js';
+import { getPollVotesPage } from './polls.js';
+
+/**
+ * Mirrors VotingService.getResultRecord
+ */
+export interface ResultRecord {
+  tallies: number[];
+  invalidBallots: number;
+  proofHash: string;
+  finalizedBlock: number;
+  ballotRoot: string;
+  ballotCount: number;
+}
+
+/**
+ * A counted ballot as committed to by ResultRecord.ballotRoot
+ */
+export interface CountedBallot {
+  encryptedVote: string;
+  voter: string;
+}
+
+export interface BallotTree {
+  root: string;
+  ballots: CountedBallot[];
+  layers: string[][];
+}
+
+export interface BallotInclusionProof {
+  pollId: string;
+  ballotRoot: string;
+  index: number;
+  encryptedVote: string;
+  voter: string;
+  proof: string[];
+}
+
+/**
+ * Read the result record of a poll whose tallies have been verified
+ */
+export async function getResultRecord(contract: ethers.Contract, pollId: string): Promise<ResultRecord> {
+  const [record, tallies, invalidBallots] = await contract.getResultRecord(pollId);
+  return {
+    tallies: tallies.map(Number),
+    invalidBallots: Number(invalidBallots),
+    proofHash: record.proofHash,
+    finalizedBlock: Number(record.finalizedBlock),
+    ballotRoot: record.ballotRoot,
+    ballotCount: Number(record.ballotCount),
+  };
+}
+
+/** Ballots finalizeBallotRoot takes in per transaction by default */
+export const BALLOT_ROOT_CHUNK_SIZE = 200;
+
+/**
+ * Build a poll's ballot root after its tallies are verified, sending finalizeBallotRoot
+ * transactions until the root is complete. Until then the record's ballotRoot is zero.
+ */
+export async function finalizeBallotRoot(
+  contract: ethers.Contract,
+  pollId: string,
+  chunkSize = BALLOT_ROOT_CHUNK_SIZE
+): Promise<void> {
+  while (!(await contract.isBallotRootFinalized(pollId))) {
+    await (await contract.finalizeBallotRoot(pollId, chunkSize)).wait();
+  }
+}
+
+/**
+ * Leaf hash for a ballot, matching the contract's double-hashed abi.encode(handle, voter)
+ */
+export function hashBallotLeaf(encryptedVote: string, voter: string): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['bytes32', 'address'], [encryptedVote, voter]);
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+/**
+ * Build the ballot tree for a poll's ballots. Unlike eligibility lists the leaves keep
+ * ballot order, as the contract builds the root from its stored ballots in that order.
+ */
+export function buildBallotTree(ballots: CountedBallot[]): BallotTree {
+  if (ballots.length === 0) {
+    return { root: ethers.ZeroHash, ballots, layers: [[]] };
+  }
+
+  const layers = buildMerkleLayers(ballots.map(ballot => hashBallotLeaf(ballot.encryptedVote, ballot.voter)));
+  return {
+    root: layers[layers.length - 1][0],
+    ballots,
+    layers,
+  };
+}
+
+/**
+ * Read every ballot of a poll through VotingServiceReader, in ballot order
+ */
+export async function getCountedBallots(
+  reader: ethers.Contract,
+  pollId: string,
+  pageSize = 100
+): Promise<CountedBallot[]> {
+  const ballots: CountedBallot[] = [];
+  let total = Infinity;
+  while (ballots.length < total) {
+    const page = await getPollVotesPage(reader, pollId, ballots.length, pageSize);
+    total = page.total;
+    if (page.items.length === 0) break;
+    ballots.push(...page.items.map(({ encryptedVote, voter }) => ({ encryptedVote, voter })));
+  }
+  return ballots;
+}
+
+/**
+ * Get the proof that a ballot is in the tree
+ */
+export function getBallotInclusionProof(tree: BallotTree, encryptedVote: string, voter: string): string[] {
+  const index = tree.layers[0].indexOf(hashBallotLeaf(encryptedVote, voter));
+  if (index === -1) {
+    throw new Error(`Ballot ${encryptedVote} from ${voter} is not in the counted set`);
+  }
+  return getMerkleProof(tree.layers, index);
+}
+
+/**
+ * Check a ballot inclusion proof against a result record's ballotRoot
+ */
+export function verifyBallotInclusion(
+  ballotRoot: string,
+  encryptedVote: string,
+  voter: string,
+  proof: string[]
+): boolean {
+  return verifyMerkleProof(ballotRoot, hashBallotLeaf(encryptedVote, voter), proof);
+}
+
+/**
+ * Prove that the ballots a voter cast (e.g. the one behind a VoteCastV3 log) were counted.
+ * Rebuilds the ballot tree from the reader and checks it against the poll's result record
+ * before producing proofs; NFT polls can hold several ballots from one voter.
+ */
+export async function proveBallotInclusion(
+  contract: ethers.Contract,
+  reader: ethers.Contract,
+  pollId: string,
+  voter: string
+): Promise<BallotInclusionProof[]> {
+  if (!(await contract.isBallotRootFinalized(pollId))) {
+    throw new Error(`Ballot root of poll ${pollId} is not finalized yet`);
+  }
+  const [record, ballots] = await Promise.all([getResultRecord(contract, pollId), getCountedBallots(reader, pollId)]);
+
+  const tree = buildBallotTree(ballots);
+  if (ballots.length !== record.ballotCount || tree.root !== record.ballotRoot) {
+    throw new Error(`Ballots read for poll ${pollId} do not match its result record`);
+  }
+
+  const proofs: BallotInclusionProof[] = [];
+  ballots.forEach((ballot, index) => {
+    if (ballot.voter.toLowerCase() !== voter.toLowerCase()) return;
+    proofs.push({
+      pollId,
+      ballotRoot: record.ballotRoot,
+      index,
+      encryptedVote: ballot.encryptedVote,
+      voter: ballot.voter,
+      proof: getMerkleProof(tree.layers, index),
+    });
+  });
+  if (proofs.length === 0) {
+    throw new Error(`No counted ballot from ${voter} in poll ${pollId}`);
+  }
+  return proofs;
+}
@@ -0,0 +1,84 @@
+/**
+ * Tenant Namespaces - Universal SDK
+ * Poll slugs of the form "<tenant>/<id>" belong to a tenant registered in TenantRegistry
+ */
+
+import { ethers } from 'ethers';
+import { VOTING_SERVICE_ABI } from './polls.js';
+
+/**
+ * Human-readable ABI for TenantRegistry
+ */
+export const TENANT_REGISTRY_ABI = [
+  'function registerTenant(string name) returns (bytes32 tenantId)',
+  'function addTenantAdmin(bytes32 tenantId, address admin)',
+  'function removeTenantAdmin(bytes32 tenantId, address admin)',
+  'function isTenantAdmin(bytes32 tenantId, address account) view returns (bool)',
+  'function getTenant(bytes32 tenantId) view returns (string name, address[] admins)',
+  'function getTenantCount() view returns (uint256)',
+  'event TenantRegistered(bytes32 indexed tenantId, string name, address indexed admin)',
+];
+
+/**
+ * Tenant ID for a tenant name, as computed by TenantRegistry.registerTenant
+ */
+export function getTenantId(name: string): string {
+  if (!name || name.includes('/')) {
+    throw new Error(`Invalid tenant name: ${name}`);
+  }
+  return ethers.keccak256(ethers.toUtf8Bytes(name));
+}
+
+/**
+ * Slug for a poll in a tenant's namespace; pass it to createPoll
+ */
+export function tenantPollSlug(tenant: string, id: string): string {
+  getTenantId(tenant);
+  return `${tenant}/${id}`;
+}
+
+/**
+ * Tenant ID a poll slug belongs to, or the zero hash for the shared namespace
+ */
+export function getPollTenantId(slug: string): string {
+  const slash = slug.indexOf('/');
+  return slash === -1 ? ethers.ZeroHash : ethers.keccak256(ethers.toUtf8Bytes(slug.slice(0, slash)));
+}
+
+/**
+ * Log filters for one tenant's VotingService events, built from the events in
+ * VOTING_SERVICE_ABI that index a tenant ID. The tenant ID isn't at the same
+ * topic in every event (TenantDelegateChanged indexes it first), so events are
+ * grouped into one filter per topic position; query each and merge the logs.
+ */
+export function getTenantLogFilters(
+  contractAddress: string,
+  tenantId: string,
+  fromBlock: ethers.BlockTag = 0
+): ethers.Filter[] {
+  const iface = new ethers.Interface(VOTING_SERVICE_ABI);
+  const filters = new Map<number, ethers.Filter>();
+
+  iface.forEachEvent((event) => {
+    const position = event.inputs.findIndex((input) => input.indexed && input.name === 'tenantId');
+    if (position === -1) {
+      return;
+    }
+    const topics = iface.encodeFilterTopics(
+      event,
+      event.inputs.map((_, i) => (i === position ? tenantId : null))
+    );
+    const filter = filters.get(topics.length);
+    if (filter) {
+      (filter.topics![0] as string[]).push(topics[0] as string);
+    } else {
+      filters.set(topics.length, {
+        address: contractAddress,
+        topics: [[topics[0] as string], ...topics.slice(1)],
+        fromBlock,
+      });
+    }
+  });
+
+  return [...filters.values()];
+}
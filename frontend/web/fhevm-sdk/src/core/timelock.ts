@@ -0,0 +1,88 @@
+/**
+ * Poll Timelock - Universal SDK
+ * On-chain calls attached to a poll, queued once it passes and executed after a delay
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Mirrors PollTimelock.ExecutionStatus - keep the order in sync with the contract
+ */
+export enum ExecutionStatus {
+  None = 0,
+  Pending = 1,
+  Queued = 2,
+  Executed = 3,
+  Cancelled = 4,
+}
+
+export const EXECUTION_STATUS_LABELS: Record<ExecutionStatus, string> = {
+  [ExecutionStatus.None]: 'No calls attached',
+  [ExecutionStatus.Pending]: 'Awaiting outcome',
+  [ExecutionStatus.Queued]: 'Queued',
+  [ExecutionStatus.Executed]: 'Executed',
+  [ExecutionStatus.Cancelled]: 'Cancelled',
+};
+
+/**
+ * Human-readable ABI for PollTimelock
+ */
+export const POLL_TIMELOCK_ABI = [
+  'function attachCalls(bytes32 pollId, tuple(address target, uint256 value, bytes data)[] calls)',
+  'function queue(bytes32 pollId)',
+  'function execute(bytes32 pollId) payable',
+  'function cancel(bytes32 pollId)',
+  'function getExecution(bytes32 pollId) view returns (uint8 status, uint256 eta, uint256 callCount)',
+  'function getCalls(bytes32 pollId) view returns (tuple(address target, uint256 value, bytes data)[])',
+  'function minDelay() view returns (uint256)',
+  'function isProposer(address account) view returns (bool)',
+  'function admin() view returns (address)',
+  'function policy() view returns (uint32 minQuorum, uint16 minApprovalBps, uint256 minDuration, bytes32 eligibilityRoot, address eligibilityNft, address weightToken, uint256 weightSnapshotId, uint256 weightUnit, address confidentialToken, uint64 confidentialMinBalance, uint64 confidentialWeightUnit)',
+  'function setPolicy(tuple(uint32 minQuorum, uint16 minApprovalBps, uint256 minDuration, bytes32 eligibilityRoot, address eligibilityNft, address weightToken, uint256 weightSnapshotId, uint256 weightUnit, address confidentialToken, uint64 confidentialMinBalance, uint64 confidentialWeightUnit) newPolicy)',
+  'event CallsAttached(bytes32 indexed pollId, address indexed proposer, uint256 callCount)',
+  'event CallsQueued(bytes32 indexed pollId, uint256 eta)',
+  'event CallsExecuted(bytes32 indexed pollId, address indexed executor)',
+  'event CallsCancelled(bytes32 indexed pollId, address indexed cancelledBy)',
+  'event PolicySet(tuple(uint32 minQuorum, uint16 minApprovalBps, uint256 minDuration, bytes32 eligibilityRoot, address eligibilityNft, address weightToken, uint256 weightSnapshotId, uint256 weightUnit, address confidentialToken, uint64 confidentialMinBalance, uint64 confidentialWeightUnit) policy)',
+];
+
+export interface TimelockCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+export interface PollExecution {
+  pollId: string;
+  status: ExecutionStatus;
+  eta: number;
+  callCount: number;
+}
+
+/**
+ * Read the execution state of a poll's calls
+ */
+export async function getPollExecution(timelock: ethers.Contract, pollId: string): Promise<PollExecution> {
+  const execution = await timelock.getExecution(pollId);
+  return {
+    pollId,
+    status: Number(execution.status) as ExecutionStatus,
+    eta: Number(execution.eta),
+    callCount: Number(execution.callCount),
+  };
+}
+
+/**
+ * Read the calls attached to a poll
+ */
+export async function getPollCalls(timelock: ethers.Contract, pollId: string): Promise<TimelockCall[]> {
+  const calls = await timelock.getCalls(pollId);
+  return calls.map((call: TimelockCall) => ({ target: call.target, value: call.value, data: call.data }));
+}
+
+/**
+ * Whether queued calls can be executed at `now` (unix seconds)
+ */
+export function isExecutionReady(execution: PollExecution, now = Math.floor(Date.now() / 1000)): boolean {
+  return execution.status === ExecutionStatus.Queued && now >= execution.eta;
+}
@@ -1,29 +1,42 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import { getContractReadOnly, getContractWithSigner, getReaderReadOnly, getTimelockReadOnly, getTimelockWithSigner, missingConfigAddresses } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import {
+  useFhevm,
+  useEncrypt,
+  useDecrypt,
+  getPollsPage,
+  findPolls,
+  PollStatus,
+  PollSummary,
+  POLL_STATUS_LABELS,
+  POLL_METADATA_SCHEMA_VERSION,
+  getPollMetadata,
+  getOptionLabels,
+  getTallyHandles,
+  splitTallyValues,
+  castVote,
+  castTokenVote,
+  buildEligibilityTreeFromCsv,
+  getEligibilityProof,
+  EligibilityMode,
+  ELIGIBILITY_MODE_LABELS,
+  ExecutionStatus,
+  EXECUTION_STATUS_LABELS,
+  PollExecution,
+  getPollExecution,
+  isExecutionReady,
+} from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
-interface VotingData {
-  id: string;
-  name: string;
-  description: string;
-  creator: string;
-  timestamp: number;
-  encryptedValue: string;
-  publicValue1: number;
-  publicValue2: number;
-  isVerified: boolean;
-  decryptedValue: number;
-  voteCount: number;
-}
+const PAGE_SIZE = 20;
 
 interface VoteStats {
   totalPolls: number;
-  verifiedPolls: number;
+  closedPolls: number;
   activeVotes: number;
   avgParticipation: number;
 }
@@ -31,7 +44,14 @@ interface VoteStats {
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
-  const [votingData, setVotingData] = useState<VotingData[]>([]);
+  const [polls, setPolls] = useState<PollSummary[]>([]);
+  const [totalPolls, setTotalPolls] = useState(0);
+  const [page, setPage] = useState(0);
+  // Filtered listings page by cursor: where each page visited so far starts
+  const [pageCursors, setPageCursors] = useState<number[]>([0]);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<PollStatus | "all">("all");
+  const [mineOnly, setMineOnly] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingVote, setCreatingVote] = useState(false);
@@ -40,12 +60,12 @@ const App: React.FC = () => {
     status: "pending", 
     message: "" 
   });
-  const [newVoteData, setNewVoteData] = useState({ title: "", description: "", voteValue: "" });
-  const [selectedVote, setSelectedVote] = useState<VotingData | null>(null);
+  const [newVoteData, setNewVoteData] = useState({ title: "", description: "", options: "", durationHours: "24", eligibilityNft: "" });
+  const [selectedPoll, setSelectedPoll] = useState<PollSummary | null>(null);
   const [contractAddress, setContractAddress] = useState("");
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
-  const [stats, setStats] = useState<VoteStats>({ totalPolls: 0, verifiedPolls: 0, activeVotes: 0, avgParticipation: 0 });
+  const [stats, setStats] = useState<VoteStats>({ totalPolls: 0, closedPolls: 0, activeVotes: 0, avgParticipation: 0 });
 
   const { status, initialize, isInitialized } = useFhevm();
   const { encrypt, isEncrypting } = useEncrypt();
@@ -76,7 +96,7 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const loadDataAndContract = async () => {
-      if (!isConnected) {
+      if (!isConnected || missingConfigAddresses.length > 0) {
         setLoading(false);
         return;
       }
@@ -93,42 +113,35 @@ const App: React.FC = () => {
     };
 
     loadDataAndContract();
-  }, [isConnected]);
+  }, [isConnected, page, statusFilter, mineOnly]);
 
   const loadData = async () => {
     if (!isConnected) return;
     
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const reader = await getReaderReadOnly();
+      if (!reader) return;
       
-      const businessIds = await contract.getAllBusinessIds();
-      const votesList: VotingData[] = [];
-      
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          votesList.push({
-            id: businessId,
-            name: businessData.name,
-            description: businessData.description,
-            creator: businessData.creator,
-            timestamp: Number(businessData.timestamp),
-            encryptedValue: businessId,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0,
-            voteCount: Number(businessData.publicValue1) || 0
-          });
-        } catch (e) {
-          console.error('Error loading voting data:', e);
-        }
+      if (statusFilter === "all" && !mineOnly) {
+        const result = await getPollsPage(reader, page * PAGE_SIZE, PAGE_SIZE);
+        setPolls(result.items);
+        setTotalPolls(result.total);
+        setHasNextPage((page + 1) * PAGE_SIZE < result.total);
+        updateStats(result.items, result.total);
+      } else {
+        const result = await findPolls(reader, {
+          status: statusFilter === "all" ? undefined : statusFilter,
+          creator: mineOnly ? address : undefined,
+        }, pageCursors[page] ?? 0, PAGE_SIZE);
+        const contract = await getContractReadOnly();
+        const pollCount = contract ? Number(await contract.getPollCount()) : 0;
+        setPolls(result.items);
+        setTotalPolls(pollCount);
+        setHasNextPage(result.nextCursor !== 0);
+        setPageCursors(cursors => [...cursors.slice(0, page + 1), result.nextCursor]);
+        updateStats(result.items, pollCount);
       }
-      
-      setVotingData(votesList);
-      updateStats(votesList);
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -137,13 +150,12 @@ const App: React.FC = () => {
     }
   };
 
-  const updateStats = (votes: VotingData[]) => {
-    const totalPolls = votes.length;
-    const verifiedPolls = votes.filter(v => v.isVerified).length;
-    const activeVotes = votes.reduce((sum, v) => sum + v.voteCount, 0);
-    const avgParticipation = totalPolls > 0 ? activeVotes / totalPolls : 0;
+  const updateStats = (pagePolls: PollSummary[], total: number) => {
+    const closedPolls = pagePolls.filter(p => p.status === PollStatus.Closed).length;
+    const activeVotes = pagePolls.reduce((sum, p) => sum + p.totalVotes, 0);
+    const avgParticipation = pagePolls.length > 0 ? activeVotes / pagePolls.length : 0;
     
-    setStats({ totalPolls, verifiedPolls, activeVotes, avgParticipation });
+    setStats({ totalPolls: total, closedPolls, activeVotes, avgParticipation });
   };
 
   const createVote = async () => {
@@ -160,32 +172,46 @@ const App: React.FC = () => {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      const voteValue = parseInt(newVoteData.voteValue) || 1;
-      const businessId = `vote-${Date.now()}`;
+      const options = newVoteData.options.split("\n").map(option => option.trim()).filter(Boolean);
+      const durationHours = parseInt(newVoteData.durationHours) || 24;
+      const slug = `vote-${Date.now()}`;
       
-      const encryptedResult = await encrypt(contractAddress, address, voteValue);
-      
-      const tx = await contract.createBusinessData(
-        businessId,
-        newVoteData.title,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        voteValue,
-        0,
-        newVoteData.description
-      );
+      const tx = await contract.createPoll(slug, newVoteData.title, {
+        pollType: 0,
+        optionCount: options.length,
+        startTime: 0,
+        duration: durationHours * 3600,
+        voterCanDecrypt: true,
+        allowRevote: false,
+        quorum: 0,
+        approvalBps: 0,
+        hideCounts: false,
+        eligibilityRoot: ethers.ZeroHash,
+        weightToken: ethers.ZeroAddress,
+        weightSnapshotId: 0,
+        weightUnit: 0,
+        eligibilityNft: newVoteData.eligibilityNft || ethers.ZeroAddress,
+        confidentialToken: ethers.ZeroAddress,
+        confidentialMinBalance: 0,
+        confidentialWeightUnit: 0
+      }, {
+        description: newVoteData.description,
+        options,
+        contentHash: ethers.ZeroHash,
+        schemaVersion: POLL_METADATA_SCHEMA_VERSION
+      });
       
       setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
       await tx.wait();
       
-      setTransactionStatus({ visible: true, status: "success", message: "Secure vote created successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Secure poll created successfully!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
       await loadData();
       setShowCreateModal(false);
-      setNewVoteData({ title: "", description: "", voteValue: "" });
+      setNewVoteData({ title: "", description: "", options: "", durationHours: "24", eligibilityNft: "" });
     } catch (e: any) {
       const errorMessage = e.message?.includes("user rejected transaction") 
         ? "Transaction rejected by user" 
@@ -197,7 +223,53 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
+  const castBallot = async (pollId: string, option: number, tokenId?: bigint, eligibilityCsv?: string): Promise<boolean> => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false; 
+    }
+    
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting ballot with FHE..." });
+    
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      
+      // Allowlist polls only store the list's root; the proof is built from the published list
+      let eligibilityProof: string[] = [];
+      if (eligibilityCsv !== undefined) {
+        const tree = buildEligibilityTreeFromCsv(eligibilityCsv);
+        const rules = await contract.getPollRules(pollId);
+        if (tree.root !== rules.eligibilityRoot) {
+          throw new Error("This voter list doesn't match the poll's eligibility list");
+        }
+        eligibilityProof = getEligibilityProof(tree, address);
+      }
+      
+      const encryptedResult = await encrypt(contractAddress, address, option);
+      const tx = tokenId !== undefined
+        ? await castTokenVote(contract, pollId, tokenId, encryptedResult.encryptedData, encryptedResult.proof)
+        : await castVote(contract, pollId, encryptedResult.encryptedData, encryptedResult.proof, eligibilityProof);
+      
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
+      await tx.wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Encrypted ballot cast!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      await loadData();
+      return true;
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") 
+        ? "Transaction rejected by user" 
+        : "Vote failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false;
+    }
+  };
+
+  const verifyTally = async (pollId: string): Promise<number[] | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -208,57 +280,45 @@ const App: React.FC = () => {
       const contractRead = await getContractReadOnly();
       if (!contractRead) return null;
       
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
+      try {
+        const storedResults: bigint[] = await contractRead.getPollResults(pollId);
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
-          message: "Data already verified on-chain" 
+          message: "Tally already verified on-chain" 
         });
         setTimeout(() => {
           setTransactionStatus({ visible: false, status: "pending", message: "" });
         }, 2000);
-        return storedValue;
+        return storedResults.map(Number);
+      } catch (e) {
+        // Not verified yet
       }
       
       const contractWrite = await getContractWithSigner();
       if (!contractWrite) return null;
       
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
+      const tallyHandles = await getTallyHandles(contractRead, pollId);
       
       const result = await verifyDecryption(
-        [encryptedValueHandle],
+        tallyHandles,
         contractAddress,
         (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
+          contractWrite.verifyTallies(pollId, abiEncodedClearValues, decryptionProof)
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      const { tallies } = splitTallyValues(tallyHandles, result.decryptionResult.clearValues);
       
       await loadData();
-      setTransactionStatus({ visible: true, status: "success", message: "Data decrypted and verified successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Tally decrypted and verified successfully!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
-      return Number(clearValue);
+      return tallies;
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Data is already verified on-chain" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        await loadData();
-        return null;
-      }
-      
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
@@ -269,26 +329,55 @@ const App: React.FC = () => {
     }
   };
 
+  const advanceExecution = async (execution: PollExecution): Promise<boolean> => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false; 
+    }
+    
+    const queueing = execution.status === ExecutionStatus.Pending;
+    setTransactionStatus({ visible: true, status: "pending", message: queueing ? "Queueing poll calls..." : "Executing poll calls..." });
+    
+    try {
+      const timelock = await getTimelockWithSigner();
+      const tx = queueing ? await timelock.queue(execution.pollId) : await timelock.execute(execution.pollId);
+      
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
+      await tx.wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: queueing ? "Calls queued behind the timelock" : "Calls executed!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      return true;
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") 
+        ? "Transaction rejected by user" 
+        : (queueing ? "Queueing failed: " : "Execution failed: ") + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false;
+    }
+  };
+
   const testAvailability = async () => {
     try {
       const contract = await getContractReadOnly();
       if (!contract) return;
       
-      const isAvailable = await contract.isAvailable();
-      if (isAvailable) {
-        setTransactionStatus({ visible: true, status: "success", message: "FHE Service is available!" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-      }
+      const pollCount = await contract.getPollCount();
+      setTransactionStatus({ visible: true, status: "success", message: `FHE Service is available! ${pollCount} polls on-chain` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Service check failed" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const filteredVotes = votingData.filter(vote =>
-    vote.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    vote.description.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredPolls = polls.filter(poll =>
+    poll.question.toLowerCase().includes(searchTerm.toLowerCase())
   );
+  const pageCount = Math.max(1, Math.ceil(totalPolls / PAGE_SIZE));
+  const isFiltered = statusFilter !== "all" || mineOnly;
 
   const renderStatsDashboard = () => (
     <div className="stats-dashboard">
@@ -304,9 +393,9 @@ const App: React.FC = () => {
       <div className="stat-panel bronze-panel">
         <div className="stat-icon">✅</div>
         <div className="stat-content">
-          <h3>Verified Data</h3>
-          <div className="stat-value">{stats.verifiedPolls}</div>
-          <div className="stat-trend">On-chain Verified</div>
+          <h3>Closed Polls</h3>
+          <div className="stat-value">{stats.closedPolls}</div>
+          <div className="stat-trend">On This Page</div>
         </div>
       </div>
       
@@ -334,17 +423,17 @@ const App: React.FC = () => {
     <div className="realtime-chart bronze-panel">
       <h3>Voting Activity Timeline</h3>
       <div className="chart-container">
-        {votingData.slice(-10).map((vote, index) => (
-          <div key={vote.id} className="chart-bar">
+        {polls.slice(-10).map((poll) => (
+          <div key={poll.pollId} className="chart-bar">
             <div 
               className="bar-fill" 
-              style={{ height: `${Math.min(100, vote.voteCount * 20)}%` }}
-              title={`${vote.name}: ${vote.voteCount} votes`}
+              style={{ height: `${Math.min(100, poll.totalVotes * 20)}%` }}
+              title={`${poll.question}: ${poll.totalVotes} votes`}
             >
-              <span className="bar-label">{vote.voteCount}</span>
+              <span className="bar-label">{poll.totalVotes}</span>
             </div>
             <div className="bar-date">
-              {new Date(vote.timestamp * 1000).getDate()}/{new Date(vote.timestamp * 1000).getMonth() + 1}
+              {new Date(poll.startTime * 1000).getDate()}/{new Date(poll.startTime * 1000).getMonth() + 1}
             </div>
           </div>
         ))}
@@ -391,6 +480,17 @@ const App: React.FC = () => {
     </div>
   );
 
+  if (missingConfigAddresses.length > 0) {
+    return (
+      <div className="loading-screen">
+        <p>This app has no contracts to talk to</p>
+        <p className="loading-note">
+          Set {missingConfigAddresses.join(", ")} in src/config.json; deploy/deploy.ts writes them after deploying.
+        </p>
+      </div>
+    );
+  }
+
   if (!isConnected) {
     return (
       <div className="app-container">
@@ -478,8 +578,34 @@ const App: React.FC = () => {
         
         <div className="votes-section">
           <div className="section-header">
-            <h2>Active Voting Polls</h2>
+            <h2>Voting Polls</h2>
             <div className="header-controls">
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value === "all" ? "all" : Number(e.target.value) as PollStatus);
+                  setPage(0);
+                  setPageCursors([0]);
+                }}
+                className="search-input"
+              >
+                <option value="all">All statuses</option>
+                {Object.entries(POLL_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <label className="filter-toggle">
+                <input
+                  type="checkbox"
+                  checked={mineOnly}
+                  onChange={(e) => {
+                    setMineOnly(e.target.checked);
+                    setPage(0);
+                    setPageCursors([0]);
+                  }}
+                />
+                My polls
+              </label>
               <div className="search-box">
                 <input
                   type="text"
@@ -496,39 +622,44 @@ const App: React.FC = () => {
           </div>
           
           <div className="votes-list">
-            {filteredVotes.length === 0 ? (
+            {filteredPolls.length === 0 ? (
               <div className="no-votes">
                 <p>No voting polls found</p>
                 <button onClick={() => setShowCreateModal(true)} className="create-btn">
                   Create First Poll
                 </button>
               </div>
-            ) : filteredVotes.map((vote) => (
+            ) : filteredPolls.map((poll) => (
               <div 
-                className={`vote-item ${vote.isVerified ? "verified" : ""}`}
-                key={vote.id}
-                onClick={() => setSelectedVote(vote)}
+                className={`vote-item ${poll.status === PollStatus.Closed ? "verified" : ""}`}
+                key={poll.pollId}
+                onClick={() => setSelectedPoll(poll)}
               >
                 <div className="vote-header">
-                  <h3>{vote.name}</h3>
-                  <span className={`status-badge ${vote.isVerified ? "verified" : "pending"}`}>
-                    {vote.isVerified ? "✅ Verified" : "🔒 Encrypted"}
+                  <h3>{poll.question}</h3>
+                  <span className={`status-badge ${poll.status === PollStatus.Closed ? "verified" : "pending"}`}>
+                    {POLL_STATUS_LABELS[poll.status]}
                   </span>
                 </div>
-                <p className="vote-description">{vote.description}</p>
                 <div className="vote-meta">
-                  <span>Votes: {vote.voteCount}</span>
-                  <span>Created: {new Date(vote.timestamp * 1000).toLocaleDateString()}</span>
-                  <span>By: {vote.creator.substring(0, 8)}...</span>
+                  <span>Votes: {poll.totalVotes}</span>
+                  <span>Options: {poll.optionCount}</span>
+                  <span>Ends: {new Date(poll.endTime * 1000).toLocaleString()}</span>
+                  <span>By: {poll.creator.substring(0, 8)}...</span>
                 </div>
-                {vote.isVerified && (
-                  <div className="decrypted-result">
-                    Final Tally: {vote.decryptedValue} votes
-                  </div>
-                )}
               </div>
             ))}
           </div>
+          
+          <div className="pagination">
+            <button onClick={() => setPage(page - 1)} className="refresh-btn" disabled={page === 0 || isRefreshing}>
+              Previous
+            </button>
+            <span>{isFiltered ? `Page ${page + 1}` : `Page ${page + 1} of ${pageCount} (${totalPolls} polls)`}</span>
+            <button onClick={() => setPage(page + 1)} className="refresh-btn" disabled={!hasNextPage || isRefreshing}>
+              Next
+            </button>
+          </div>
         </div>
       </div>
       
@@ -543,11 +674,14 @@ const App: React.FC = () => {
         />
       )}
       
-      {selectedVote && (
+      {selectedPoll && (
         <VoteDetailModal
-          vote={selectedVote}
-          onClose={() => setSelectedVote(null)}
-          onDecrypt={() => decryptData(selectedVote.id)}
+          poll={selectedPoll}
+          onClose={() => setSelectedPoll(null)}
+          onVote={(option, tokenId, eligibilityCsv) => castBallot(selectedPoll.pollId, option, tokenId, eligibilityCsv)}
+          onDecrypt={() => verifyTally(selectedPoll.pollId)}
+          onAdvanceExecution={advanceExecution}
+          isEncrypting={isEncrypting}
           isDecrypting={fheIsDecrypting}
         />
       )}
@@ -589,7 +723,7 @@ const CreateVoteModal: React.FC<{
 }> = ({ onSubmit, onClose, creating, voteData, setVoteData, isEncrypting }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    if (name === 'voteValue') {
+    if (name === 'durationHours') {
       const intValue = value.replace(/[^\d]/g, '');
       setVoteData({ ...voteData, [name]: intValue });
     } else {
@@ -610,18 +744,18 @@ const CreateVoteModal: React.FC<{
             <div className="notice-icon">🔐</div>
             <div>
               <strong>FHE Encrypted Voting</strong>
-              <p>Vote count will be encrypted using Zama FHE technology</p>
+              <p>Ballots and per-option tallies stay encrypted until the poll closes</p>
             </div>
           </div>
           
           <div className="form-group">
-            <label>Vote Title *</label>
+            <label>Question *</label>
             <input
               type="text"
               name="title"
               value={voteData.title}
               onChange={handleChange}
-              placeholder="Enter vote title..."
+              placeholder="Enter poll question..."
               className="form-input"
             />
           </div>
@@ -632,25 +766,47 @@ const CreateVoteModal: React.FC<{
               name="description"
               value={voteData.description}
               onChange={handleChange}
-              placeholder="Describe this vote..."
-              className="form-textarea"
-              rows={3}
+              placeholder="Context shown to voters..."
+              className="form-input"
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Options *</label>
+            <textarea
+              name="options"
+              value={voteData.options}
+              onChange={handleChange}
+              placeholder={"One option per line\nYes\nNo"}
+              className="form-input"
             />
+            <div className="input-hint">Between 2 and 16 options, stored on-chain with the poll</div>
           </div>
           
           <div className="form-group">
-            <label>Initial Vote Count (Integer) *</label>
+            <label>Duration (hours) *</label>
             <input
               type="number"
-              name="voteValue"
-              value={voteData.voteValue}
+              name="durationHours"
+              value={voteData.durationHours}
               onChange={handleChange}
-              placeholder="Enter initial vote count..."
-              min="0"
+              min="1"
               step="1"
               className="form-input"
             />
-            <div className="input-hint">FHE Encrypted Integer</div>
+          </div>
+          
+          <div className="form-group">
+            <label>NFT Contract</label>
+            <input
+              type="text"
+              name="eligibilityNft"
+              value={voteData.eligibilityNft}
+              onChange={handleChange}
+              placeholder="0x... (optional)"
+              className="form-input"
+            />
+            <div className="input-hint">When set, each token of this ERC-721 collection gets one vote</div>
           </div>
         </div>
         
@@ -658,10 +814,10 @@ const CreateVoteModal: React.FC<{
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button
             onClick={onSubmit}
-            disabled={creating || isEncrypting || !voteData.title || !voteData.voteValue}
+            disabled={creating || isEncrypting || !voteData.title || !voteData.options.trim() || !voteData.durationHours}
             className="submit-btn"
           >
-            {creating || isEncrypting ? "Encrypting..." : "Create Secure Vote"}
+            {creating ? "Creating..." : "Create Secure Vote"}
           </button>
         </div>
       </div>
@@ -670,16 +826,69 @@ const CreateVoteModal: React.FC<{
 };
 
 const VoteDetailModal: React.FC<{
-  vote: VotingData;
+  poll: PollSummary;
   onClose: () => void;
-  onDecrypt: () => Promise<number | null>;
+  onVote: (option: number, tokenId?: bigint, eligibilityCsv?: string) => Promise<boolean>;
+  onDecrypt: () => Promise<number[] | null>;
+  onAdvanceExecution: (execution: PollExecution) => Promise<boolean>;
+  isEncrypting: boolean;
   isDecrypting: boolean;
-}> = ({ vote, onClose, onDecrypt, isDecrypting }) => {
-  const [localDecrypted, setLocalDecrypted] = useState<number | null>(null);
+}> = ({ poll, onClose, onVote, onDecrypt, onAdvanceExecution, isEncrypting, isDecrypting }) => {
+  const [selectedOption, setSelectedOption] = useState(0);
+  const [tokenId, setTokenId] = useState("");
+  const isNftPoll = poll.eligibilityMode === EligibilityMode.Nft;
+  const [eligibilityCsv, setEligibilityCsv] = useState("");
+  const isAllowlistPoll = poll.eligibilityMode === EligibilityMode.Allowlist;
+  const [tallies, setTallies] = useState<number[] | null>(null);
+  const [description, setDescription] = useState("");
+  const [labels, setLabels] = useState<string[]>(() =>
+    Array.from({ length: poll.optionCount }, (_, option) => `Option ${option}`)
+  );
+  const isClosed = poll.status === PollStatus.Closed;
+  const [execution, setExecution] = useState<PollExecution | null>(null);
+  const [advancingExecution, setAdvancingExecution] = useState(false);
+
+  const loadExecution = async () => {
+    try {
+      const timelock = await getTimelockReadOnly();
+      if (!timelock) return;
+      setExecution(await getPollExecution(timelock, poll.pollId));
+    } catch (e) {
+      console.error("Failed to load poll execution:", e);
+    }
+  };
+
+  useEffect(() => {
+    loadExecution();
+  }, [poll.pollId]);
+
+  const handleAdvanceExecution = async () => {
+    if (!execution) return;
+    setAdvancingExecution(true);
+    if (await onAdvanceExecution(execution)) {
+      await loadExecution();
+    }
+    setAdvancingExecution(false);
+  };
+
+  useEffect(() => {
+    const loadMetadata = async () => {
+      try {
+        const contract = await getContractReadOnly();
+        if (!contract) return;
+        const metadata = await getPollMetadata(contract, poll.pollId);
+        setDescription(metadata.description);
+        setLabels(getOptionLabels(metadata, poll.optionCount));
+      } catch (e) {
+        console.error("Failed to load poll metadata:", e);
+      }
+    };
+    loadMetadata();
+  }, [poll.pollId, poll.optionCount]);
 
   const handleDecrypt = async () => {
     const result = await onDecrypt();
-    setLocalDecrypted(result);
+    setTallies(result);
   };
 
   return (
@@ -693,67 +902,151 @@ const VoteDetailModal: React.FC<{
         <div className="modal-body">
           <div className="vote-info">
             <div className="info-row">
-              <span>Title:</span>
-              <strong>{vote.name}</strong>
+              <span>Question:</span>
+              <strong>{poll.question}</strong>
+            </div>
+            {description && (
+              <div className="info-row">
+                <span>Description:</span>
+                <span>{description}</span>
+              </div>
+            )}
+            <div className="info-row">
+              <span>Status:</span>
+              <span>{POLL_STATUS_LABELS[poll.status]}</span>
             </div>
             <div className="info-row">
-              <span>Description:</span>
-              <p>{vote.description}</p>
+              <span>Eligibility:</span>
+              <span>{ELIGIBILITY_MODE_LABELS[poll.eligibilityMode]}</span>
             </div>
             <div className="info-row">
               <span>Creator:</span>
-              <code>{vote.creator}</code>
+              <code>{poll.creator}</code>
             </div>
             <div className="info-row">
-              <span>Created:</span>
-              <span>{new Date(vote.timestamp * 1000).toLocaleString()}</span>
+              <span>Voting window:</span>
+              <span>
+                {new Date(poll.startTime * 1000).toLocaleString()} – {new Date(poll.endTime * 1000).toLocaleString()}
+              </span>
             </div>
           </div>
           
+          {poll.status === PollStatus.Active && (
+            <div className="encryption-section">
+              <h3>Cast Encrypted Ballot</h3>
+              <select
+                value={selectedOption}
+                onChange={(e) => setSelectedOption(Number(e.target.value))}
+                className="form-input"
+              >
+                {labels.map((label, option) => (
+                  <option key={option} value={option}>{label}</option>
+                ))}
+              </select>
+              {isNftPoll && (
+                <input
+                  type="text"
+                  value={tokenId}
+                  onChange={(e) => setTokenId(e.target.value.replace(/[^\d]/g, ''))}
+                  placeholder="Your token ID"
+                  className="form-input"
+                />
+              )}
+              {isAllowlistPoll && (
+                <>
+                  <textarea
+                    value={eligibilityCsv}
+                    onChange={(e) => setEligibilityCsv(e.target.value)}
+                    placeholder={"Voter list published with the poll
+0x..."}
+                    className="form-input"
+                  />
+                  <div className="input-hint">Your eligibility proof is built from this list, one address per line</div>
+                </>
+              )}
+              <button
+                onClick={() => onVote(
+                  selectedOption,
+                  isNftPoll ? BigInt(tokenId) : undefined,
+                  isAllowlistPoll ? eligibilityCsv : undefined
+                )}
+                disabled={isEncrypting || (isNftPoll && !tokenId) || (isAllowlistPoll && !eligibilityCsv.trim())}
+                className="decrypt-btn"
+              >
+                {isEncrypting ? '🔐 Encrypting...' : '🗳️ Cast Vote'}
+              </button>
+            </div>
+          )}
+          
           <div className="encryption-section">
             <h3>FHE Encryption Status</h3>
-            <div className={`encryption-status ${vote.isVerified ? 'verified' : 'encrypted'}`}>
+            <div className={`encryption-status ${tallies ? 'verified' : 'encrypted'}`}>
               <div className="status-icon">
-                {vote.isVerified ? '✅' : '🔐'}
+                {tallies ? '✅' : '🔐'}
               </div>
               <div className="status-content">
-                <h4>{vote.isVerified ? 'On-Chain Verified' : 'FHE Encrypted'}</h4>
+                <h4>{tallies ? 'On-Chain Verified' : 'FHE Encrypted'}</h4>
                 <p>
-                  {vote.isVerified 
-                    ? `Final tally: ${vote.decryptedValue} votes (verified on-chain)`
-                    : 'Vote count is encrypted using FHE technology'
+                  {tallies 
+                    ? tallies.map((count, option) => `${labels[option]}: ${count}`).join(' · ')
+                    : isClosed
+                      ? 'Poll closed - the tally can now be decrypted and verified'
+                      : 'Tallies stay encrypted until the poll closes'
                   }
                 </p>
               </div>
             </div>
-            
-            {!vote.isVerified && (
-              <button
-                onClick={handleDecrypt}
-                disabled={isDecrypting}
-                className={`decrypt-btn ${localDecrypted !== null ? 'decrypted' : ''}`}
-              >
-                {isDecrypting ? '🔓 Verifying...' : 
-                 localDecrypted !== null ? `✅ ${localDecrypted} votes` : 
-                 '🔓 Verify Tally'}
-              </button>
-            )}
           </div>
           
+          {execution && execution.status !== ExecutionStatus.None && (
+            <div className="encryption-section">
+              <h3>On-Chain Execution</h3>
+              <div className="info-row">
+                <span>Status:</span>
+                <span>{EXECUTION_STATUS_LABELS[execution.status]}</span>
+              </div>
+              <div className="info-row">
+                <span>Calls:</span>
+                <span>{execution.callCount}</span>
+              </div>
+              {execution.status === ExecutionStatus.Queued && (
+                <div className="info-row">
+                  <span>Executable from:</span>
+                  <span>{new Date(execution.eta * 1000).toLocaleString()}</span>
+                </div>
+              )}
+              {((isClosed && execution.status === ExecutionStatus.Pending) || isExecutionReady(execution)) && (
+                <button
+                  onClick={handleAdvanceExecution}
+                  disabled={advancingExecution}
+                  className="decrypt-btn"
+                >
+                  {execution.status === ExecutionStatus.Pending
+                    ? (advancingExecution ? 'Queueing...' : 'Queue Calls')
+                    : (advancingExecution ? 'Executing...' : 'Execute Calls')}
+                </button>
+              )}
+            </div>
+          )}
+          
           <div className="technical-info">
             <h3>Technical Details</h3>
             <div className="tech-grid">
               <div className="tech-item">
-                <span>Public Value 1:</span>
-                <code>{vote.publicValue1}</code>
+                <span>Ballots:</span>
+                <code>{poll.totalVotes}</code>
+              </div>
+              <div className="tech-item">
+                <span>Options:</span>
+                <code>{poll.optionCount}</code>
               </div>
               <div className="tech-item">
-                <span>Public Value 2:</span>
-                <code>{vote.publicValue2}</code>
+                <span>Slug:</span>
+                <code>{poll.slug}</code>
               </div>
               <div className="tech-item">
-                <span>Vote ID:</span>
-                <code className="vote-id">{vote.id}</code>
+                <span>Poll ID:</span>
+                <code className="vote-id">{poll.pollId}</code>
               </div>
             </div>
           </div>
@@ -761,13 +1054,13 @@ const VoteDetailModal: React.FC<{
         
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">Close</button>
-          {!vote.isVerified && (
+          {isClosed && !tallies && (
             <button
               onClick={handleDecrypt}
               disabled={isDecrypting}
               className="verify-btn"
             >
-              {isDecrypting ? 'Verifying...' : 'Verify on Chain'}
+              {isDecrypting ? 'Verifying...' : 'Verify Tally on Chain'}
             </button>
           )}
         </div>
@@ -1,11 +1,16 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import { POLL_TIMELOCK_ABI, VOTING_SERVICE_ABI, VOTING_SERVICE_READER_ABI } from "../../fhevm-sdk/src";
 import configJson from "../config.json";
 
-export const ABI = (abiJson as any).abi || abiJson;
+export const ABI = VOTING_SERVICE_ABI;
 export const config = configJson;
 
+// deploy/deploy.ts writes these into config.json once the contracts are deployed
+export const missingConfigAddresses = (["contractAddress", "readerAddress", "timelockAddress"] as const).filter(
+  (key) => !ethers.isAddress(config[key])
+);
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -66,6 +71,45 @@ export async function getContractReadOnly() {
   }
 }
 
+export async function getReaderReadOnly() {
+  if (!config.readerAddress) {
+    console.error("No VotingServiceReader address configured");
+    return null;
+  }
+
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(config.readerAddress, VOTING_SERVICE_READER_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create reader contract:", error);
+    return null;
+  }
+}
+
+export async function getTimelockReadOnly() {
+  if (!config.timelockAddress) {
+    return null;
+  }
+
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(config.timelockAddress, POLL_TIMELOCK_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create timelock contract:", error);
+    return null;
+  }
+}
+
+export async function getTimelockWithSigner() {
+  if (!config.timelockAddress) {
+    throw new Error("No PollTimelock address configured");
+  }
+
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(config.timelockAddress, POLL_TIMELOCK_ABI, signer);
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
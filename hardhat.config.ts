@@ -2,6 +2,8 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/storageLayout";
+import "./tasks/gasBenchmark";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -27,6 +29,11 @@ const config: HardhatUserConfig = {
         bytecodeHash: "none",
       },
       evmVersion: "cancun",
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   paths: {
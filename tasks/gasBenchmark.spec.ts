@@ -0,0 +1,9 @@
+import hre from "hardhat";
+import { benchmarkRun, runBenchmark } from "./utils/gasBenchmark";
+
+// Run by the gas:benchmark task, not by `npm test`
+describe("gas:benchmark", function () {
+  it("runs a poll through its lifecycle", async function () {
+    benchmarkRun.results = await runBenchmark(hre);
+  });
+});
@@ -0,0 +1,49 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { TASK_TEST } from "hardhat/builtin-tasks/task-names";
+import { benchmarkRun, GasResults } from "./utils/gasBenchmark";
+
+const RESULTS_PATH = path.join(__dirname, "..", "benchmarks", "gas.json");
+const SPEC_PATH = path.join(__dirname, "gasBenchmark.spec.ts");
+
+/** `before` holds the numbers from before polls were keyed by bytes32, `after` the latest ones. */
+interface GasBenchmark {
+  before: GasResults;
+  after: GasResults;
+}
+
+task("gas:benchmark", "Measure gas for creating, voting on, closing and verifying a poll")
+  .addFlag("save", "Record the results as the after numbers in benchmarks/gas.json")
+  .addFlag("baseline", "Record the results as the before numbers in benchmarks/gas.json")
+  .setAction(async ({ save, baseline }: { save: boolean; baseline: boolean }, hre) => {
+    await hre.run("compile", { quiet: true });
+
+    await hre.run(TASK_TEST, { testFiles: [SPEC_PATH], noCompile: true });
+    const current = benchmarkRun.results;
+    if (!current) {
+      throw new Error("The gas benchmark failed");
+    }
+    const recorded: GasBenchmark = fs.existsSync(RESULTS_PATH)
+      ? JSON.parse(fs.readFileSync(RESULTS_PATH, "utf8"))
+      : { before: {}, after: {} };
+
+    console.table(
+      Object.entries(current).map(([operation, gasUsed]) => {
+        const before = recorded.before[operation];
+        return {
+          operation,
+          before: before ?? "-",
+          after: gasUsed,
+          change: before ? `${(((gasUsed - before) / before) * 100).toFixed(1)}%` : "-",
+        };
+      })
+    );
+
+    if (save || baseline) {
+      const results = baseline ? { ...recorded, before: current } : { ...recorded, after: current };
+      fs.mkdirSync(path.dirname(RESULTS_PATH), { recursive: true });
+      fs.writeFileSync(RESULTS_PATH, JSON.stringify(results, null, 2) + "\n");
+      console.log(`Wrote ${path.relative(process.cwd(), RESULTS_PATH)}`);
+    }
+  });
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  findStorageLayoutConflicts,
+  normalizeStorageLayout,
+  RawStorageLayout,
+  StorageVariable,
+} from "./utils/storageLayout";
+
+const SERVICE = "contracts/VoteService_Z.sol:VotingService";
+// Runs against the service's storage through delegatecall, so it must match it exactly
+const ADMIN_MODULE = "contracts/VotingServiceAdmin.sol:VotingServiceAdmin";
+const SNAPSHOT_PATH = path.join(__dirname, "..", "storage-layout", "VotingService.json");
+
+async function readStorageLayout(hre: HardhatRuntimeEnvironment, fullyQualifiedName: string): Promise<StorageVariable[]> {
+  const [sourceName, contractName] = fullyQualifiedName.split(":");
+  const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+  const layout = (buildInfo?.output.contracts[sourceName]?.[contractName] as { storageLayout?: RawStorageLayout })
+    ?.storageLayout;
+  if (!layout) {
+    throw new Error(`No storage layout for ${fullyQualifiedName}; is storageLayout in the solc outputSelection?`);
+  }
+  return normalizeStorageLayout(layout);
+}
+
+task("storage-layout:snapshot", "Record VotingService's storage layout as the baseline for upgrades").setAction(
+  async (_, hre) => {
+    await hre.run("compile", { quiet: true });
+
+    const layout = await readStorageLayout(hre, SERVICE);
+    fs.mkdirSync(path.dirname(SNAPSHOT_PATH), { recursive: true });
+    fs.writeFileSync(SNAPSHOT_PATH, JSON.stringify(layout, null, 2) + "\n");
+    console.log(`Wrote ${path.relative(process.cwd(), SNAPSHOT_PATH)} (${layout.length} variables)`);
+  }
+);
+
+task("storage-layout:check", "Check that VotingService can be upgraded without corrupting proxy storage").setAction(
+  async (_, hre) => {
+    await hre.run("compile", { quiet: true });
+
+    const current = await readStorageLayout(hre, SERVICE);
+    const conflicts: string[] = [];
+
+    if (fs.existsSync(SNAPSHOT_PATH)) {
+      const previous = JSON.parse(fs.readFileSync(SNAPSHOT_PATH, "utf8")) as StorageVariable[];
+      conflicts.push(...findStorageLayoutConflicts(previous, current));
+    } else {
+      console.warn(`No snapshot at ${SNAPSHOT_PATH}; run storage-layout:snapshot after the first deployment`);
+    }
+
+    const adminLayout = await readStorageLayout(hre, ADMIN_MODULE);
+    if (JSON.stringify(adminLayout) !== JSON.stringify(current)) {
+      conflicts.push("VotingServiceAdmin's storage layout differs from VotingService's; keep all state in VotingServiceStorage");
+    }
+
+    if (conflicts.length > 0) {
+      throw new Error(`Storage layout is not upgrade-safe:\n  - ${conflicts.join("\n  - ")}`);
+    }
+    console.log("Storage layout is upgrade-safe");
+  }
+);
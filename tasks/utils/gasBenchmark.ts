@@ -0,0 +1,98 @@
+/**
+ * Gas benchmark of a poll's lifecycle. The mock coprocessor is only set up by `hardhat test`,
+ * so the gas:benchmark task runs this through gasBenchmark.spec.ts and reads the numbers back
+ * from `benchmarkRun`.
+ */
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, type ContractTransactionResponse } from "ethers";
+
+export type GasResults = Record<string, number>;
+
+export const benchmarkRun: { results?: GasResults } = {};
+
+/**
+ * Runs one plurality poll through its lifecycle on the in-process network with the mock
+ * coprocessor and records the gas used by each step. Works against the string poll ID ABI
+ * as well, so the same run can be measured on revisions from before bytes32 IDs.
+ */
+export async function runBenchmark(hre: HardhatRuntimeEnvironment): Promise<GasResults> {
+  const { ethers, fhevm } = hre;
+  if (!fhevm.isMock) {
+    throw new Error("The gas benchmark runs on the hardhat network only");
+  }
+
+  // Imported here: deploy helpers import "hardhat", which can't load while the config does
+  const { deployVotingService } = await import("../../deploy/votingService");
+
+  const [owner, firstVoter, secondVoter] = await ethers.getSigners();
+  const deployment = await deployVotingService(owner, owner.address);
+  // Admin-module functions are reached through the proxy as well
+  const service = new Contract(deployment.proxy, (await hre.artifacts.readArtifact("VotingService")).abi, owner);
+  const admin = new Contract(deployment.proxy, (await hre.artifacts.readArtifact("VotingServiceAdmin")).abi, owner);
+
+  const gas: GasResults = {};
+  const record = async (name: string, tx: ContractTransactionResponse) => {
+    const receipt = await tx.wait();
+    gas[name] = Number(receipt!.gasUsed);
+  };
+  const encryptBallot = (voter: string, option: number) =>
+    fhevm.createEncryptedInput(deployment.proxy, voter).add32(option).encrypt();
+
+  const slug = "benchmark";
+  const bytes32Ids = service.interface.getFunction("closePoll")!.inputs[0].type === "bytes32";
+  const pollId = bytes32Ids ? ethers.keccak256(ethers.toUtf8Bytes(slug)) : slug;
+  const castVote = `castVote(${bytes32Ids ? "bytes32" : "string"},bytes32,bytes,bytes32[])`;
+  const duration = 3600;
+  await record(
+    "createPoll",
+    await service.createPoll(
+      slug,
+      "Benchmark poll",
+      // Fields the revision's PollConfig doesn't have are left out of the encoding
+      {
+        pollType: 0,
+        optionCount: 4,
+        startTime: 0,
+        duration,
+        voterCanDecrypt: true,
+        allowRevote: true,
+        quorum: 0,
+        approvalBps: 0,
+        hideCounts: false,
+        eligibilityRoot: ethers.ZeroHash,
+        weightToken: ethers.ZeroAddress,
+        weightSnapshotId: 0,
+        weightUnit: 0,
+        eligibilityNft: ethers.ZeroAddress,
+        confidentialToken: ethers.ZeroAddress,
+        confidentialMinBalance: 0,
+        confidentialWeightUnit: 0,
+      },
+      { description: "", options: ["A", "B", "C", "D"], contentHash: ethers.ZeroHash, schemaVersion: 1 }
+    )
+  );
+
+  const cases: [string, typeof firstVoter, number][] = [
+    ["castVote (first ballot)", firstVoter, 1],
+    ["castVote", secondVoter, 2],
+    ["castVote (re-vote)", firstVoter, 3],
+  ];
+  for (const [name, voter, option] of cases) {
+    const ballot = await encryptBallot(voter.address, option);
+    const voterService = service.connect(voter) as Contract;
+    await record(name, await voterService[castVote](pollId, ballot.handles[0], ballot.inputProof, []));
+  }
+
+  await hre.network.provider.send("evm_increaseTime", [duration]);
+  await hre.network.provider.send("evm_mine", []);
+  await record("closePoll", await service.closePoll(pollId));
+
+  const handles: string[] = [
+    ...(await admin.getEncryptedTallies(pollId)),
+    await admin.getEncryptedInvalidBallots(pollId),
+  ];
+  const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+  await record("verifyTallies", await service.verifyTallies(pollId, abiEncodedClearValues, decryptionProof));
+
+  return gas;
+}
@@ -0,0 +1,145 @@
+/**
+ * Storage layout snapshots for upgradeable contracts.
+ *
+ * solc reports layouts with AST ids baked into type names, so layouts are first normalised
+ * into self-contained trees that can be committed and compared across compilations.
+ */
+
+interface RawStorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface RawStorageType {
+  encoding: string;
+  label: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: RawStorageEntry[];
+}
+
+export interface RawStorageLayout {
+  storage: RawStorageEntry[];
+  types: Record<string, RawStorageType> | null;
+}
+
+export interface StorageType {
+  encoding: string;
+  label: string;
+  numberOfBytes: string;
+  key?: StorageType;
+  value?: StorageType;
+  base?: StorageType;
+  members?: StorageVariable[];
+}
+
+export interface StorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: StorageType;
+}
+
+export function normalizeStorageLayout(layout: RawStorageLayout): StorageVariable[] {
+  const types = layout.types ?? {};
+
+  const resolveType = (id: string): StorageType => {
+    const raw = types[id];
+    if (!raw) throw new Error(`Unknown storage type ${id}`);
+
+    const type: StorageType = { encoding: raw.encoding, label: raw.label, numberOfBytes: raw.numberOfBytes };
+    if (raw.key) type.key = resolveType(raw.key);
+    if (raw.value) type.value = resolveType(raw.value);
+    if (raw.base) type.base = resolveType(raw.base);
+    if (raw.members) type.members = raw.members.map(resolveVariable);
+    return type;
+  };
+
+  const resolveVariable = (entry: RawStorageEntry): StorageVariable => ({
+    label: entry.label,
+    slot: entry.slot,
+    offset: entry.offset,
+    type: resolveType(entry.type),
+  });
+
+  return layout.storage.map(resolveVariable);
+}
+
+/**
+ * List the changes that would corrupt existing state if `current` replaced `previous`
+ * behind a proxy. Variables and struct members may only be appended, and structs may only
+ * grow where each value has its own storage area (mapping values), never inside arrays.
+ */
+export function findStorageLayoutConflicts(previous: StorageVariable[], current: StorageVariable[]): string[] {
+  const conflicts: string[] = [];
+  compareVariables(previous, current, "", conflicts);
+  return conflicts;
+}
+
+function compareVariables(previous: StorageVariable[], current: StorageVariable[], path: string, conflicts: string[]) {
+  previous.forEach((variable, index) => {
+    const name = `${path}${variable.label}`;
+    const match = current[index];
+    if (!match) {
+      conflicts.push(`${name} was removed`);
+      return;
+    }
+    if (match.label !== variable.label) {
+      conflicts.push(`${name} was replaced by ${path}${match.label}`);
+      return;
+    }
+    if (match.slot !== variable.slot || match.offset !== variable.offset) {
+      conflicts.push(`${name} moved from slot ${variable.slot}:${variable.offset} to ${match.slot}:${match.offset}`);
+      return;
+    }
+    compareTypes(variable.type, match.type, name, false, conflicts);
+  });
+}
+
+function compareTypes(
+  previous: StorageType,
+  current: StorageType,
+  path: string,
+  canGrow: boolean,
+  conflicts: string[]
+) {
+  if (previous.encoding !== current.encoding) {
+    conflicts.push(`${path} changed from ${previous.label} to ${current.label}`);
+    return;
+  }
+
+  if (previous.members) {
+    if (!current.members) {
+      conflicts.push(`${path} changed from ${previous.label} to ${current.label}`);
+      return;
+    }
+    if (!canGrow && previous.numberOfBytes !== current.numberOfBytes) {
+      conflicts.push(`${path} changed size from ${previous.numberOfBytes} to ${current.numberOfBytes} bytes`);
+    }
+    compareVariables(previous.members, current.members, `${path}.`, conflicts);
+    return;
+  }
+
+  if (previous.key && current.key) {
+    compareTypes(previous.key, current.key, `${path}[key]`, false, conflicts);
+  }
+  if (previous.value && current.value) {
+    compareTypes(previous.value, current.value, `${path}[]`, true, conflicts);
+    return;
+  }
+  if (previous.base && current.base) {
+    compareTypes(previous.base, current.base, `${path}[]`, false, conflicts);
+    if (previous.encoding === "inplace" && previous.numberOfBytes !== current.numberOfBytes) {
+      conflicts.push(`${path} changed from ${previous.label} to ${current.label}`);
+    }
+    return;
+  }
+
+  if (previous.label !== current.label || previous.numberOfBytes !== current.numberOfBytes) {
+    conflicts.push(`${path} changed from ${previous.label} to ${current.label}`);
+  }
+}
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ConfidentialGovernor } from "../types";
+import { buildEligibilityTree } from "../frontend/web/fhevm-sdk/src/core/eligibility";
+import {
+  Fixture,
+  castVote,
+  deployVotingService,
+  increaseTime,
+  pollConfig,
+  pollMetadata,
+  skipUnlessMock,
+  verifyTallies,
+} from "./helpers";
+
+const VOTING_DELAY = 60;
+const VOTING_PERIOD = 3600;
+const QUORUM = 2;
+
+// OpenZeppelin's IGovernor.ProposalState
+const ACTIVE = 1;
+const SUCCEEDED = 4;
+const EXECUTED = 7;
+
+describe("ConfidentialGovernor", function () {
+  let fixture: Fixture;
+  let governor: ConfidentialGovernor;
+  let members: HardhatEthersSigner[];
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    members = (await ethers.getSigners()).slice(1, 4);
+    governor = await ethers.deployContract("ConfidentialGovernor", [
+      "DAO",
+      "dao",
+      fixture.proxyAddress,
+      VOTING_DELAY,
+      VOTING_PERIOD,
+      QUORUM,
+      ethers.ZeroHash,
+    ]);
+  });
+
+  it("executes a proposal once its poll's verified tallies pass", async function () {
+    const newRoot = buildEligibilityTree(members.map((member) => member.address)).root;
+    const targets = [await governor.getAddress()];
+    const values = [0n];
+    const calldatas = [governor.interface.encodeFunctionData("setEligibilityRoot", [newRoot])];
+    const description = "Restrict voting to members";
+    await governor.propose(targets, values, calldatas, description);
+    const descriptionHash = ethers.id(description);
+    const proposalId = await governor.hashProposal(targets, values, calldatas, descriptionHash);
+    const pollId = await governor.proposalPoll(proposalId);
+
+    await increaseTime(VOTING_DELAY + 1);
+    await expect(governor.connect(members[0]).castVote(proposalId, await governor.FOR())).to.be.revertedWith(
+      "Vote through VotingService"
+    );
+    await castVote(fixture, pollId, members[0], Number(await governor.FOR()));
+    await castVote(fixture, pollId, members[1], Number(await governor.FOR()));
+    await castVote(fixture, pollId, members[2], Number(await governor.AGAINST()));
+    expect(await governor.hasVoted(proposalId, members[0].address)).to.equal(true);
+
+    // The voting period is over, but nothing counts until the tallies are revealed
+    await increaseTime(VOTING_PERIOD);
+    expect(await governor.state(proposalId)).to.equal(ACTIVE);
+    await governor.closeProposalPoll(proposalId);
+    await verifyTallies(fixture, pollId);
+
+    expect(await governor.proposalVotes(proposalId)).to.deep.equal([1n, 2n, 0n]);
+    expect(await governor.state(proposalId)).to.equal(SUCCEEDED);
+    await expect(governor.execute(targets, values, calldatas, descriptionHash))
+      .to.emit(governor, "EligibilityRootSet")
+      .withArgs(ethers.ZeroHash, newRoot);
+    expect(await governor.state(proposalId)).to.equal(EXECUTED);
+    expect(await governor.eligibilityRoot()).to.equal(newRoot);
+  });
+
+  it("names the poll of a proposal without a description after its ID", async function () {
+    const targets = [await governor.getAddress()];
+    const calldatas = [governor.interface.encodeFunctionData("setEligibilityRoot", [ethers.ZeroHash])];
+    await governor.propose(targets, [0n], calldatas, "");
+    const proposalId = await governor.hashProposal(targets, [0n], calldatas, ethers.id(""));
+
+    const [question] = await fixture.service.getPollDetails(await governor.proposalPoll(proposalId));
+    expect(question).to.equal(`Proposal ${proposalId}`);
+  });
+
+  it("keeps its proposal namespace to itself", async function () {
+    await expect(
+      fixture.service.createPoll("dao/1", "Squatted", pollConfig(), pollMetadata(3))
+    ).to.be.revertedWith("Not tenant admin");
+    await expect(
+      ethers.deployContract("ConfidentialGovernor", [
+        "Impostor",
+        "dao",
+        fixture.proxyAddress,
+        VOTING_DELAY,
+        VOTING_PERIOD,
+        QUORUM,
+        ethers.ZeroHash,
+      ])
+    ).to.be.revertedWith("Tenant already registered");
+  });
+});
@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ConfidentialTokenMock } from "../types";
+import {
+  approveConfidentialEscrow,
+  getConfidentialTokenSettings,
+  shareConfidentialBalance,
+} from "../frontend/web/fhevm-sdk/src/core/confidentialTokens";
+import {
+  POLL_DURATION,
+  RANKED_CHOICE,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  pollConfig,
+  pollMetadata,
+  skipUnlessMock,
+} from "./helpers";
+
+describe("Confidential token polls", function () {
+  const MIN_BALANCE = 10n;
+  const WEIGHT_UNIT = 10n;
+
+  let fixture: Fixture;
+  let token: ConfidentialTokenMock;
+  let voters: HardhatEthersSigner[];
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    voters = (await ethers.getSigners()).slice(1, 5);
+    token = await ethers.deployContract("ConfidentialTokenMock");
+    await token.mint(voters[0].address, 100);
+    await token.mint(voters[1].address, 30);
+    // Below the poll's minimum
+    await token.mint(voters[2].address, 5);
+  });
+
+  async function createTokenPoll(slug: string, weightUnit = WEIGHT_UNIT) {
+    return createPoll(fixture, slug, {
+      confidentialToken: await token.getAddress(),
+      confidentialMinBalance: MIN_BALANCE,
+      confidentialWeightUnit: weightUnit,
+    });
+  }
+
+  /** Lets the service escrow the voter's tokens and compute on their balance, as the SDK does. */
+  async function prepareVoter(voter: HardhatEthersSigner) {
+    const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+    const tokenAddress = await token.getAddress();
+    await approveConfidentialEscrow(voter, tokenAddress, fixture.proxyAddress, timestamp + POLL_DURATION);
+    await shareConfidentialBalance(voter, tokenAddress, await token.acl(), fixture.proxyAddress);
+  }
+
+  async function balanceOf(voter: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(voter.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, await token.getAddress(), voter);
+  }
+
+  it("weights ballots by encrypted balance and ignores balances below the minimum", async function () {
+    const pollId = await createTokenPoll("token-weighted");
+    const contract = new ethers.Contract(fixture.proxyAddress, fixture.admin.interface, ethers.provider);
+    expect(await getConfidentialTokenSettings(contract, pollId)).to.deep.equal({
+      token: await token.getAddress(),
+      minBalance: MIN_BALANCE,
+      weightUnit: WEIGHT_UNIT,
+    });
+
+    for (const voter of voters) {
+      await prepareVoter(voter);
+    }
+    await castVote(fixture, pollId, voters[0], 0);
+    await castVote(fixture, pollId, voters[1], 1);
+    await castVote(fixture, pollId, voters[2], 1);
+    // Never held the token, so escrows nothing and weighs nothing
+    await castVote(fixture, pollId, voters[3], 2);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([10n, 3n, 0n]);
+  });
+
+  it("counts one per eligible voter without a weight unit", async function () {
+    const pollId = await createTokenPoll("token-gated", 0n);
+    for (const [i, voter] of voters.slice(0, 3).entries()) {
+      await prepareVoter(voter);
+      await castVote(fixture, pollId, voter, i);
+    }
+    // Holding no tokens counts for nothing, even without a weight unit
+    await prepareVoter(voters[3]);
+    await castVote(fixture, pollId, voters[3], 2);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([1n, 1n, 0n]);
+  });
+
+  it("moves the escrowed weight with a re-vote", async function () {
+    const pollId = await createTokenPoll("token-revote");
+    await prepareVoter(voters[0]);
+    await castVote(fixture, pollId, voters[0], 0);
+    await castVote(fixture, pollId, voters[0], 2);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([0n, 0n, 10n]);
+  });
+
+  it("reserves the maximum weight of each voter against the total weight", async function () {
+    fixture = await deployVotingService("TotalWeightSeeder");
+    const seeder = await ethers.getContractAt("TotalWeightSeeder", fixture.proxyAddress);
+    const pollId = await createTokenPoll("token-capacity");
+    const maxWeight = await fixture.service.MAX_CONFIDENTIAL_WEIGHT();
+    expect((2n ** 32n - 1n) / maxWeight).to.equal(65537n);
+
+    // Room for exactly one more voter
+    await seeder.seedTotalWeight(pollId, 2n ** 32n - 1n - maxWeight);
+    await prepareVoter(voters[0]);
+    await castVote(fixture, pollId, voters[0], 0);
+    await prepareVoter(voters[1]);
+    await expect(castVote(fixture, pollId, voters[1], 1)).to.be.revertedWith("Total voting weight too large");
+  });
+
+  it("escrows the balance until voting is over", async function () {
+    const pollId = await createTokenPoll("token-escrow");
+    await prepareVoter(voters[0]);
+    await castVote(fixture, pollId, voters[0], 0);
+    expect(await balanceOf(voters[0])).to.equal(0n);
+
+    await expect(fixture.admin.connect(voters[0]).withdrawConfidentialTokens(pollId)).to.be.revertedWith(
+      "Voting not over"
+    );
+    await increaseTime(POLL_DURATION);
+    await expect(fixture.admin.connect(voters[0]).withdrawConfidentialTokens(pollId))
+      .to.emit(fixture.admin, "ConfidentialTokensWithdrawn")
+      .withArgs(pollId, ethers.ZeroHash, voters[0].address);
+    expect(await balanceOf(voters[0])).to.equal(100n);
+
+    await expect(fixture.admin.connect(voters[0]).withdrawConfidentialTokens(pollId)).to.be.revertedWith(
+      "Nothing escrowed"
+    );
+  });
+
+  it("needs the balance shared and the service set as operator", async function () {
+    const pollId = await createTokenPoll("token-unshared");
+    const tokenAddress = await token.getAddress();
+    await expect(castVote(fixture, pollId, voters[0], 0)).to.be.revertedWith("Balance not shared");
+
+    await shareConfidentialBalance(voters[0], tokenAddress, await token.acl(), fixture.proxyAddress);
+    await expect(castVote(fixture, pollId, voters[0], 0)).to.be.revertedWith("Not operator");
+  });
+
+  it("requires a minimum balance above zero", async function () {
+    const config = pollConfig({ confidentialToken: await token.getAddress(), confidentialMinBalance: 0n });
+    await expect(fixture.service.createPoll("token-open", "Which option?", config, pollMetadata(3))).to.be.revertedWith(
+      "Invalid minimum balance"
+    );
+  });
+
+  it("delegates the encrypted weight of an escrowed balance", async function () {
+    const pollId = await createTokenPoll("token-delegated");
+    for (const voter of voters.slice(0, 3)) {
+      await prepareVoter(voter);
+    }
+    await fixture.admin.connect(voters[0]).delegate(pollId, voters[1].address, []);
+    expect(await balanceOf(voters[0])).to.equal(0n);
+    await castVote(fixture, pollId, voters[1], 1);
+    // Below the minimum, so it hands over nothing
+    await fixture.admin.connect(voters[2]).delegate(pollId, voters[1].address, []);
+
+    // Voting directly takes back the weight already escrowed
+    await castVote(fixture, pollId, voters[0], 2);
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([0n, 3n, 10n]);
+
+    await fixture.admin.connect(voters[2]).withdrawConfidentialTokens(pollId);
+    expect(await balanceOf(voters[2])).to.equal(5n);
+  });
+
+  it("only lets the delegator escrow their balance for a tenant delegation", async function () {
+    await fixture.registry.registerTenant("acme");
+    const tenantId = ethers.keccak256(ethers.toUtf8Bytes("acme"));
+    const pollId = await createTokenPoll("acme/token-delegated");
+    await prepareVoter(voters[0]);
+    await fixture.admin.connect(voters[0]).setTenantDelegate(tenantId, voters[1].address);
+
+    await expect(
+      fixture.admin.connect(voters[1]).claimTenantDelegation(pollId, voters[0].address, [])
+    ).to.be.revertedWith("Only the delegator");
+    await fixture.admin.connect(voters[0]).claimTenantDelegation(pollId, voters[0].address, []);
+    await prepareVoter(voters[1]);
+    await castVote(fixture, pollId, voters[1], 0);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([13n, 0n, 0n]);
+  });
+
+  it("keeps token-gated polls to plain plurality polls", async function () {
+    const ranked = pollConfig({ pollType: RANKED_CHOICE, confidentialToken: await token.getAddress() });
+    await expect(fixture.service.createPoll("ranked", "Which option?", ranked, pollMetadata(3))).to.be.revertedWith(
+      "Token-gated polls need a plain plurality poll"
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  skipUnlessMock,
+} from "./helpers";
+
+describe("Delegation", function () {
+  let fixture: Fixture;
+  let delegatee: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [, delegatee, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  async function closeAndGetResults(pollId: string) {
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    return fixture.admin.getPollResults(pollId);
+  }
+
+  it("adds delegated weight to the delegate's ballot, whenever it was delegated", async function () {
+    const pollId = await createPoll(fixture, "delegated");
+    await fixture.admin.connect(alice).delegate(pollId, delegatee.address, []);
+    await castVote(fixture, pollId, delegatee, 1);
+    await fixture.admin.connect(bob).delegate(pollId, delegatee.address, []);
+    // A re-vote moves the delegated weight along with the ballot
+    await castVote(fixture, pollId, delegatee, 2);
+    await castVote(fixture, pollId, carol, 0);
+
+    expect(await fixture.admin.getDelegate(pollId, alice.address)).to.equal(delegatee.address);
+    expect(await closeAndGetResults(pollId)).to.deep.equal([1n, 0n, 3n]);
+  });
+
+  it("takes the delegated weight back on undelegate", async function () {
+    const pollId = await createPoll(fixture, "undelegated");
+    await fixture.admin.connect(alice).delegate(pollId, delegatee.address, []);
+    await castVote(fixture, pollId, delegatee, 1);
+    await expect(fixture.admin.connect(alice).undelegate(pollId))
+      .to.emit(fixture.admin, "DelegateChanged")
+      .withArgs(pollId, ethers.ZeroHash, alice.address, ethers.ZeroAddress);
+
+    expect(await fixture.admin.getDelegate(pollId, alice.address)).to.equal(ethers.ZeroAddress);
+    await expect(fixture.admin.connect(alice).undelegate(pollId)).to.be.revertedWith("Not delegated");
+    expect(await closeAndGetResults(pollId)).to.deep.equal([0n, 1n, 0n]);
+  });
+
+  it("lets a direct vote override the delegation", async function () {
+    const pollId = await createPoll(fixture, "overridden");
+    await fixture.admin.connect(alice).delegate(pollId, delegatee.address, []);
+    await castVote(fixture, pollId, delegatee, 1);
+    await castVote(fixture, pollId, alice, 0);
+
+    expect(await fixture.admin.getDelegate(pollId, alice.address)).to.equal(ethers.ZeroAddress);
+    await expect(fixture.admin.connect(alice).delegate(pollId, delegatee.address, [])).to.be.revertedWith(
+      "Already voted"
+    );
+    expect(await closeAndGetResults(pollId)).to.deep.equal([1n, 1n, 0n]);
+  });
+
+  it("applies a standing tenant delegation once claimed", async function () {
+    await fixture.registry.registerTenant("acme");
+    const tenantId = ethers.keccak256(ethers.toUtf8Bytes("acme"));
+    const pollId = await createPoll(fixture, "acme/budget");
+    await fixture.admin.connect(alice).setTenantDelegate(tenantId, delegatee.address);
+    await fixture.admin.connect(bob).setTenantDelegate(tenantId, delegatee.address);
+
+    await expect(fixture.admin.connect(delegatee).claimTenantDelegation(pollId, alice.address, []))
+      .to.emit(fixture.admin, "DelegateChanged")
+      .withArgs(pollId, tenantId, alice.address, delegatee.address);
+    await expect(
+      fixture.admin.connect(delegatee).claimTenantDelegation(pollId, alice.address, [])
+    ).to.be.revertedWith("Already delegated");
+    await expect(
+      fixture.admin.connect(delegatee).claimTenantDelegation(pollId, carol.address, [])
+    ).to.be.revertedWith("No tenant delegation");
+
+    // Bob opts out of the standing delegation on this poll
+    await fixture.admin.connect(bob).delegate(pollId, carol.address, []);
+    await fixture.admin.connect(bob).undelegate(pollId);
+    await expect(
+      fixture.admin.connect(delegatee).claimTenantDelegation(pollId, bob.address, [])
+    ).to.be.revertedWith("Delegator opted out");
+
+    await castVote(fixture, pollId, delegatee, 2);
+    expect(await closeAndGetResults(pollId)).to.deep.equal([0n, 0n, 2n]);
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { MembershipNftMock } from "../types";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  pollConfig,
+  pollMetadata,
+  skipUnlessMock,
+} from "./helpers";
+
+// Values of VotingServiceStorage.EligibilityMode
+const OPEN = 0n;
+const NFT = 2n;
+
+describe("NFT polls", function () {
+  let fixture: Fixture;
+  let nft: MembershipNftMock;
+  let members: HardhatEthersSigner[];
+  let outsider: HardhatEthersSigner;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    const signers = await ethers.getSigners();
+    members = signers.slice(1, 3);
+    outsider = signers[3];
+    nft = await ethers.deployContract("MembershipNftMock");
+    await nft.mint(members[0].address, 1);
+    await nft.mint(members[0].address, 2);
+    await nft.mint(members[1].address, 3);
+  });
+
+  async function createNftPoll(slug: string, allowRevote = false) {
+    return createPoll(fixture, slug, { eligibilityNft: await nft.getAddress(), allowRevote });
+  }
+
+  async function castTokenVote(pollId: string, voter: HardhatEthersSigner, tokenId: number, option: number) {
+    const { handles, inputProof } = await fhevm
+      .createEncryptedInput(fixture.proxyAddress, voter.address)
+      .add32(option)
+      .encrypt();
+    return fixture.service
+      .connect(voter)
+      ["castVote(bytes32,uint256,bytes32,bytes)"](pollId, tokenId, handles[0], inputProof);
+  }
+
+  it("exposes the poll's eligibility mode", async function () {
+    const pollId = await createNftPoll("nft");
+    const [, , , , , , eligibilityMode] = await fixture.service.getPollDetails(pollId);
+    expect(eligibilityMode).to.equal(NFT);
+    expect(await fixture.admin.getEligibilityNft(pollId)).to.equal(await nft.getAddress());
+
+    const [, , , , , , openMode] = await fixture.service.getPollDetails(await createPoll(fixture, "open"));
+    expect(openMode).to.equal(OPEN);
+  });
+
+  it("counts one ballot per token its owner casts", async function () {
+    const pollId = await createNftPoll("nft");
+    await castTokenVote(pollId, members[0], 1, 0);
+    await castTokenVote(pollId, members[0], 2, 0);
+    await castTokenVote(pollId, members[1], 3, 2);
+
+    await expect(castTokenVote(pollId, outsider, 3, 1)).to.be.revertedWith("Not token owner");
+    await expect(castVote(fixture, pollId, outsider, 1)).to.be.revertedWith("Vote with a token ID");
+    expect(await fixture.admin.hasTokenVoted(pollId, 1)).to.equal(true);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([2n, 0n, 1n]);
+  });
+
+  it("keeps a transferred token from voting twice", async function () {
+    const pollId = await createNftPoll("nft");
+    await castTokenVote(pollId, members[1], 3, 2);
+    await nft.connect(members[1]).transferFrom(members[1].address, outsider.address, 3);
+
+    expect(await fixture.admin.hasTokenVoted(pollId, 3)).to.equal(true);
+    await expect(castTokenVote(pollId, outsider, 3, 1)).to.be.revertedWith("Already voted");
+    await expect(castTokenVote(pollId, members[1], 3, 1)).to.be.revertedWith("Not token owner");
+  });
+
+  it("lets a token's current owner replace its ballot in a re-vote poll", async function () {
+    const pollId = await createNftPoll("nft-revote", true);
+    await castTokenVote(pollId, members[1], 3, 2);
+    await nft.connect(members[1]).transferFrom(members[1].address, outsider.address, 3);
+    await castTokenVote(pollId, outsider, 3, 1);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([0n, 1n, 0n]);
+    const [, , , , totalVotes] = await fixture.service.getPollDetails(pollId);
+    expect(totalVotes).to.equal(1n);
+  });
+
+  it("only takes token ballots on NFT polls", async function () {
+    const open = await createPoll(fixture, "open");
+    await expect(castTokenVote(open, members[0], 1, 0)).to.be.revertedWith("Not an NFT poll");
+
+    const weighted = pollConfig({
+      eligibilityNft: await nft.getAddress(),
+      weightToken: await nft.getAddress(),
+      weightUnit: 1n,
+    });
+    await expect(fixture.service.createPoll("weighted", "Which option?", weighted, pollMetadata(3))).to.be.revertedWith(
+      "NFT polls are unweighted plurality polls"
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  skipUnlessMock,
+} from "./helpers";
+
+const SCHEDULED = 0n;
+const ACTIVE = 1n;
+const ENDED = 2n;
+const CLOSED = 3n;
+const CANCELLED = 4n;
+
+describe("Poll lifecycle", function () {
+  let fixture: Fixture;
+  let voter: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [, voter, stranger] = await ethers.getSigners();
+  });
+
+  async function statusOf(pollId: string) {
+    const [, , , , , status] = await fixture.service.getPollDetails(pollId);
+    return status;
+  }
+
+  async function now() {
+    return BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+  }
+
+  it("moves a scheduled poll through its voting window", async function () {
+    const startTime = (await now()) + 600n;
+    const pollId = await createPoll(fixture, "scheduled", { startTime: Number(startTime) });
+
+    const [, start, end] = await fixture.service.getPollDetails(pollId);
+    expect(start).to.equal(startTime);
+    expect(end).to.equal(startTime + BigInt(POLL_DURATION));
+    expect(await statusOf(pollId)).to.equal(SCHEDULED);
+    await expect(castVote(fixture, pollId, voter, 0)).to.be.revertedWith("Voting not started");
+
+    await increaseTime(600);
+    expect(await statusOf(pollId)).to.equal(ACTIVE);
+    await castVote(fixture, pollId, voter, 0);
+    await expect(fixture.service.closePoll(pollId)).to.be.revertedWith("Voting still in progress");
+
+    await increaseTime(POLL_DURATION);
+    expect(await statusOf(pollId)).to.equal(ENDED);
+    await expect(castVote(fixture, pollId, voter, 1)).to.be.revertedWith("Voting period ended");
+    await closeAndVerify(fixture, pollId);
+    expect(await statusOf(pollId)).to.equal(CLOSED);
+  });
+
+  it("rejects a start time in the past", async function () {
+    await expect(createPoll(fixture, "past", { startTime: Number(await now()) - 1 })).to.be.revertedWith(
+      "Start time in the past"
+    );
+  });
+
+  it("extends an open poll's deadline", async function () {
+    const pollId = await createPoll(fixture, "extended");
+    const [, , endTime] = await fixture.service.getPollDetails(pollId);
+
+    await expect(fixture.admin.extendPoll(pollId, endTime)).to.be.revertedWith("End time not extended");
+    await expect(fixture.admin.connect(stranger).extendPoll(pollId, endTime + 600n)).to.be.revertedWith(
+      "Not poll admin"
+    );
+    await expect(fixture.admin.extendPoll(pollId, endTime + 600n))
+      .to.emit(fixture.admin, "PollExtended")
+      .withArgs(pollId, ethers.ZeroHash, endTime, endTime + 600n);
+
+    await increaseTime(POLL_DURATION);
+    expect(await statusOf(pollId)).to.equal(ACTIVE);
+    await castVote(fixture, pollId, voter, 2);
+
+    await increaseTime(600);
+    await expect(fixture.admin.extendPoll(pollId, endTime + 1200n)).to.be.revertedWith("Poll not open");
+  });
+
+  it("cancels a poll and keeps it from being voted on or closed", async function () {
+    const pollId = await createPoll(fixture, "cancelled");
+    await castVote(fixture, pollId, voter, 0);
+
+    await expect(fixture.admin.cancelPoll(pollId, "")).to.be.revertedWith("Empty reason");
+    await expect(fixture.admin.connect(stranger).cancelPoll(pollId, "Spam")).to.be.revertedWith("Not poll admin");
+    await expect(fixture.admin.cancelPoll(pollId, "Duplicate poll"))
+      .to.emit(fixture.admin, "PollCancelled")
+      .withArgs(pollId, ethers.ZeroHash, "Duplicate poll");
+
+    expect(await statusOf(pollId)).to.equal(CANCELLED);
+    expect(await fixture.admin.getCancelReason(pollId)).to.equal("Duplicate poll");
+    await expect(castVote(fixture, pollId, voter, 1)).to.be.revertedWith("Poll cancelled");
+    await expect(fixture.admin.cancelPoll(pollId, "Again")).to.be.revertedWith("Poll cancelled");
+
+    await increaseTime(POLL_DURATION);
+    expect(await statusOf(pollId)).to.equal(CANCELLED);
+    await expect(fixture.service.closePoll(pollId)).to.be.revertedWith("Poll cancelled");
+  });
+
+  it("can't cancel a closed poll", async function () {
+    const pollId = await createPoll(fixture, "closed");
+    await castVote(fixture, pollId, voter, 0);
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+
+    await expect(fixture.admin.cancelPoll(pollId, "Too late")).to.be.revertedWith("Poll already closed");
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  closeAndVerifyOutcome,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  pollConfig,
+  skipUnlessMock,
+  verifyTallies,
+} from "./helpers";
+
+describe("Poll outcome rules", function () {
+  let fixture: Fixture;
+  let voters: HardhatEthersSigner[];
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    voters = (await ethers.getSigners()).slice(1, 5);
+  });
+
+  function createMotion(slug: string, overrides: Parameters<typeof pollConfig>[0]) {
+    return createPoll(fixture, slug, { optionCount: 2, ...overrides });
+  }
+
+  async function voteAndClose(pollId: string, options: number[]) {
+    for (const [i, option] of options.entries()) {
+      await castVote(fixture, pollId, voters[i], option);
+    }
+    await increaseTime(POLL_DURATION);
+    return closeAndVerifyOutcome(fixture, pollId);
+  }
+
+  it("passes a poll that meets its quorum and approval threshold", async function () {
+    const pollId = await createMotion("passing", { quorum: 3, approvalBps: 6_000 });
+    expect(await voteAndClose(pollId, [0, 0, 1])).to.deep.equal([true, true, true]);
+
+    await verifyTallies(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([2n, 1n]);
+    await expect(closeAndVerifyOutcome(fixture, pollId)).to.be.revertedWith("Poll already closed");
+  });
+
+  it("fails a poll whose turnout is below its quorum", async function () {
+    const pollId = await createMotion("no-quorum", { quorum: 4 });
+    expect(await voteAndClose(pollId, [0, 0, 0])).to.deep.equal([true, false, false]);
+  });
+
+  it("counts ballots, not weight, towards the quorum", async function () {
+    const token = await ethers.deployContract("SnapshotTokenMock");
+    await token.setBalanceAt(voters[0].address, 1, 5n);
+    await token.setBalanceAt(voters[1].address, 1, 1n);
+    const weighted = { weightToken: await token.getAddress(), weightSnapshotId: 1, weightUnit: 1n };
+
+    const heavy = await createMotion("one-heavy-voter", { ...weighted, quorum: 2 });
+    expect(await voteAndClose(heavy, [0])).to.deep.equal([true, false, false]);
+
+    const twoVoters = await createMotion("two-voters", { ...weighted, quorum: 2 });
+    expect(await voteAndClose(twoVoters, [0, 1])).to.deep.equal([true, true, true]);
+  });
+
+  it("leaves invalid ballots out of the quorum", async function () {
+    const pollId = await createMotion("invalid-turnout", { quorum: 2 });
+    expect(await voteAndClose(pollId, [0, 7])).to.deep.equal([true, false, false]);
+  });
+
+  it("fails a poll whose first option falls short of the approval threshold", async function () {
+    const pollId = await createMotion("rejected", { quorum: 3, approvalBps: 6_000 });
+    expect(await voteAndClose(pollId, [0, 1, 1])).to.deep.equal([true, true, false]);
+  });
+
+  it("fails an approval-only poll nobody approved", async function () {
+    const pollId = await createMotion("unapproved", { approvalBps: 5_000 });
+    expect(await voteAndClose(pollId, [])).to.deep.equal([true, true, false]);
+  });
+
+  it("releases only the outcome of a poll with hidden counts", async function () {
+    const pollId = await createMotion("hidden", { quorum: 2, hideCounts: true });
+    expect(await voteAndClose(pollId, [0, 1])).to.deep.equal([true, true, true]);
+
+    await expect(fixture.service.verifyTallies(pollId, "0x", "0x")).to.be.revertedWith("Tallies are private");
+    const [tally] = await fixture.admin.getEncryptedTallies(pollId);
+    await expect(fhevm.publicDecrypt([tally])).to.be.rejected;
+  });
+
+  it("only verifies outcomes of polls with outcome rules", async function () {
+    const pollId = await createMotion("no-rules", {});
+    await castVote(fixture, pollId, voters[0], 0);
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    await expect(fixture.admin.verifyOutcome(pollId, "0x", "0x")).to.be.revertedWith("Poll has no outcome rules");
+  });
+
+  it("rejects invalid outcome rules", async function () {
+    await expect(createMotion("bad-approval", { approvalBps: 10_001 })).to.be.revertedWith(
+      "Invalid approval threshold"
+    );
+    await expect(createMotion("bad-hidden", { hideCounts: true })).to.be.revertedWith(
+      "Hidden counts need outcome rules"
+    );
+    await expect(createMotion("bad-ranked", { pollType: 1, quorum: 1 })).to.be.revertedWith(
+      "Outcome rules need a plurality poll"
+    );
+  });
+});
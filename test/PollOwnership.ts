@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Fixture, createPoll, deployVotingService, pollIdOf, skipUnlessMock } from "./helpers";
+
+describe("Poll ownership", function () {
+  let fixture: Fixture;
+  let creator: HardhatEthersSigner;
+  let coOwner: HardhatEthersSigner;
+  let newOwner: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let pollId: string;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [creator, coOwner, newOwner, stranger] = await ethers.getSigners();
+    pollId = await createPoll(fixture, "owned");
+  });
+
+  it("makes the creator the poll owner", async function () {
+    expect(await fixture.admin.getPollOwner(pollId)).to.equal(creator.address);
+    expect(await fixture.admin.isPollAdmin(pollId, creator.address)).to.equal(true);
+    expect(await fixture.admin.isPollAdmin(pollId, stranger.address)).to.equal(false);
+  });
+
+  it("lets co-owners administer the poll but not manage its owners", async function () {
+    await expect(fixture.admin.addCoOwner(pollId, coOwner.address))
+      .to.emit(fixture.admin, "CoOwnerAdded")
+      .withArgs(pollId, ethers.ZeroHash, coOwner.address);
+    expect(await fixture.admin.getCoOwners(pollId)).to.deep.equal([coOwner.address]);
+    expect(await fixture.admin.isPollAdmin(pollId, coOwner.address)).to.equal(true);
+
+    const [, , endTime] = await fixture.service.getPollDetails(pollId);
+    await fixture.admin.connect(coOwner).extendPoll(pollId, endTime + 60n);
+    await expect(fixture.admin.connect(coOwner).addCoOwner(pollId, stranger.address)).to.be.revertedWith(
+      "Not poll owner"
+    );
+    await expect(
+      fixture.admin.connect(coOwner).transferPollOwnership(pollId, coOwner.address)
+    ).to.be.revertedWith("Not poll owner");
+    await expect(fixture.admin.connect(stranger).extendPoll(pollId, endTime + 120n)).to.be.revertedWith(
+      "Not poll admin"
+    );
+  });
+
+  it("rejects duplicate and invalid co-owners", async function () {
+    await fixture.admin.addCoOwner(pollId, coOwner.address);
+    await expect(fixture.admin.addCoOwner(pollId, coOwner.address)).to.be.revertedWith("Already co-owner");
+    await expect(fixture.admin.addCoOwner(pollId, creator.address)).to.be.revertedWith("Already poll owner");
+    await expect(fixture.admin.addCoOwner(pollId, ethers.ZeroAddress)).to.be.revertedWith("Invalid co-owner");
+    await expect(fixture.admin.removeCoOwner(pollId, stranger.address)).to.be.revertedWith("Not co-owner");
+  });
+
+  it("revokes a removed co-owner's rights", async function () {
+    await fixture.admin.addCoOwner(pollId, coOwner.address);
+    await fixture.admin.addCoOwner(pollId, stranger.address);
+    await expect(fixture.admin.removeCoOwner(pollId, coOwner.address))
+      .to.emit(fixture.admin, "CoOwnerRemoved")
+      .withArgs(pollId, ethers.ZeroHash, coOwner.address);
+
+    expect(await fixture.admin.getCoOwners(pollId)).to.deep.equal([stranger.address]);
+    expect(await fixture.admin.isPollAdmin(pollId, coOwner.address)).to.equal(false);
+  });
+
+  it("transfers ownership and drops the new owner from the co-owners", async function () {
+    await fixture.admin.addCoOwner(pollId, newOwner.address);
+    await expect(fixture.admin.transferPollOwnership(pollId, newOwner.address))
+      .to.emit(fixture.admin, "PollOwnershipTransferred")
+      .withArgs(pollId, ethers.ZeroHash, creator.address, newOwner.address);
+
+    expect(await fixture.admin.getPollOwner(pollId)).to.equal(newOwner.address);
+    expect(await fixture.admin.getCoOwners(pollId)).to.deep.equal([]);
+    expect(await fixture.admin.isPollAdmin(pollId, creator.address)).to.equal(false);
+    await expect(fixture.admin.addCoOwner(pollId, coOwner.address)).to.be.revertedWith("Not poll owner");
+    await expect(fixture.admin.connect(newOwner).transferPollOwnership(pollId, newOwner.address)).to.be.revertedWith(
+      "Already poll owner"
+    );
+    await expect(
+      fixture.admin.connect(newOwner).transferPollOwnership(pollId, ethers.ZeroAddress)
+    ).to.be.revertedWith("Invalid owner");
+  });
+
+  it("rejects ownership calls on unknown polls", async function () {
+    await expect(fixture.admin.addCoOwner(pollIdOf("missing"), coOwner.address)).to.be.revertedWith(
+      "Poll does not exist"
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { PollTimelock } from "../types";
+import {
+  EligibilityTree,
+  buildEligibilityTree,
+  getEligibilityProof,
+} from "../frontend/web/fhevm-sdk/src/core/eligibility";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  skipUnlessMock,
+} from "./helpers";
+
+const MIN_DELAY = 86400;
+const MIN_QUORUM = 2;
+const MIN_APPROVAL_BPS = 5000;
+
+// PollTimelock.ExecutionStatus
+const QUEUED = 2;
+const EXECUTED = 3;
+
+describe("PollTimelock", function () {
+  let fixture: Fixture;
+  let timelock: PollTimelock;
+  let tree: EligibilityTree;
+  let members: HardhatEthersSigner[];
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    members = (await ethers.getSigners()).slice(1, 4);
+    tree = buildEligibilityTree(members.map((member) => member.address));
+
+    timelock = await ethers.deployContract("PollTimelock", [fixture.proxyAddress, fixture.owner.address, MIN_DELAY]);
+    await timelock.setProposer(fixture.owner.address, true);
+    await timelock.setPolicy(policy({ eligibilityRoot: tree.root }));
+  });
+
+  function policy(overrides: Partial<Parameters<PollTimelock["setPolicy"]>[0]> = {}) {
+    return {
+      minQuorum: MIN_QUORUM,
+      minApprovalBps: MIN_APPROVAL_BPS,
+      minDuration: POLL_DURATION,
+      eligibilityRoot: ethers.ZeroHash,
+      eligibilityNft: ethers.ZeroAddress,
+      weightToken: ethers.ZeroAddress,
+      weightSnapshotId: 0,
+      weightUnit: 0n,
+      confidentialToken: ethers.ZeroAddress,
+      confidentialMinBalance: 0n,
+      confidentialWeightUnit: 0n,
+      ...overrides,
+    };
+  }
+
+  async function updateDelayCall() {
+    return {
+      target: await timelock.getAddress(),
+      value: 0n,
+      data: timelock.interface.encodeFunctionData("updateDelay", [0]),
+    };
+  }
+
+  function createMemberPoll(slug: string, quorum: number, approvalBps: number) {
+    return createPoll(fixture, slug, { optionCount: 2, quorum, approvalBps, eligibilityRoot: tree.root });
+  }
+
+  async function vote(pollId: string, member: HardhatEthersSigner, option: number) {
+    await castVote(fixture, pollId, member, option, getEligibilityProof(tree, member.address));
+  }
+
+  it("queues and executes the calls of a poll that passed", async function () {
+    const pollId = await createMemberPoll("timelock-delay", MIN_QUORUM, MIN_APPROVAL_BPS);
+    const call = {
+      target: await timelock.getAddress(),
+      value: 0n,
+      data: timelock.interface.encodeFunctionData("updateDelay", [123]),
+    };
+    await timelock.attachCalls(pollId, [call]);
+
+    await vote(pollId, members[0], 0);
+    await vote(pollId, members[1], 0);
+    await vote(pollId, members[2], 1);
+    await expect(timelock.queue(pollId)).to.be.revertedWith("Outcome not verified");
+    await increaseTime(POLL_DURATION);
+
+    const closeReceipt = await (await fixture.service.closePoll(pollId)).wait();
+    const released = closeReceipt!.logs
+      .map((log) => fixture.service.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "OutcomeReleased")!;
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+      released.args.quorumMetHandle,
+      released.args.passedHandle,
+    ]);
+    await fixture.admin.verifyOutcome(pollId, abiEncodedClearValues, decryptionProof);
+    expect(await fixture.admin.getPollOutcome(pollId)).to.deep.equal([true, true, true]);
+
+    await timelock.queue(pollId);
+    const [status] = await timelock.getExecution(pollId);
+    expect(status).to.equal(QUEUED);
+    await expect(timelock.execute(pollId)).to.be.revertedWith("Timelock not expired");
+
+    await increaseTime(MIN_DELAY);
+    await expect(timelock.execute(pollId)).to.emit(timelock, "MinDelayChanged").withArgs(MIN_DELAY, 123);
+    expect(await timelock.minDelay()).to.equal(123n);
+    expect((await timelock.getExecution(pollId))[0]).to.equal(EXECUTED);
+    await expect(timelock.execute(pollId)).to.be.revertedWith("Calls not queued");
+  });
+
+  it("refuses calls on a poll whose rules are below the policy", async function () {
+    const call = await updateDelayCall();
+    const lowQuorum = await createMemberPoll("timelock-low-quorum", MIN_QUORUM - 1, MIN_APPROVAL_BPS);
+    await expect(timelock.attachCalls(lowQuorum, [call])).to.be.revertedWith("Outcome rules below policy");
+
+    const lowApproval = await createMemberPoll("timelock-low-approval", MIN_QUORUM, MIN_APPROVAL_BPS - 1);
+    await expect(timelock.attachCalls(lowApproval, [call])).to.be.revertedWith("Outcome rules below policy");
+
+    await expect(timelock.updateDelay(0)).to.be.revertedWith("Only through the timelock");
+  });
+
+  it("refuses calls on a poll whose voting window is shorter than the policy's", async function () {
+    const pollId = await createPoll(fixture, "timelock-short", {
+      optionCount: 2,
+      quorum: MIN_QUORUM,
+      approvalBps: MIN_APPROVAL_BPS,
+      eligibilityRoot: tree.root,
+      duration: 1,
+    });
+    await expect(timelock.attachCalls(pollId, [await updateDelayCall()])).to.be.revertedWith(
+      "Voting window below policy"
+    );
+  });
+
+  it("refuses calls on a poll whose weighting differs from the policy's", async function () {
+    const weightToken = await (await ethers.deployContract("SnapshotTokenMock")).getAddress();
+    const confidentialToken = await (await ethers.deployContract("ConfidentialTokenMock")).getAddress();
+    const weighted = { weightToken, weightSnapshotId: 7, weightUnit: 10n };
+    const gated = { confidentialToken, confidentialMinBalance: 10n, confidentialWeightUnit: 10n };
+    const call = await updateDelayCall();
+
+    const cases: [Record<string, unknown>, Record<string, unknown>][] = [
+      [weighted, { ...weighted, weightSnapshotId: 8 }],
+      [weighted, { ...weighted, weightUnit: 1n }],
+      [gated, { ...gated, confidentialMinBalance: 1n }],
+      [gated, { ...gated, confidentialWeightUnit: 1n }],
+    ];
+    for (const [i, [policyVoters, pollVoters]] of cases.entries()) {
+      await timelock.setPolicy(policy(policyVoters));
+      const config = { optionCount: 2, quorum: MIN_QUORUM, approvalBps: MIN_APPROVAL_BPS };
+      const mismatched = await createPoll(fixture, `timelock-weighting-${i}`, { ...config, ...pollVoters });
+      await expect(timelock.attachCalls(mismatched, [call])).to.be.revertedWith("Weighting doesn't match policy");
+
+      const matching = await createPoll(fixture, `timelock-matching-${i}`, { ...config, ...policyVoters });
+      await timelock.attachCalls(matching, [call]);
+    }
+  });
+
+  it("rejects policies whose weighting can't be met", async function () {
+    await expect(timelock.setPolicy(policy({ weightToken: fixture.owner.address }))).to.be.revertedWith(
+      "Invalid weight unit"
+    );
+    await expect(timelock.setPolicy(policy({ confidentialToken: fixture.owner.address }))).to.be.revertedWith(
+      "Invalid minimum balance"
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  RANKED_CHOICE,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  pollConfig,
+  skipUnlessMock,
+} from "./helpers";
+
+const MAX_RANKED_OPTIONS = 8;
+const NO_WINNER = 255;
+
+describe("RankedChoiceCounting", function () {
+  let fixture: Awaited<ReturnType<typeof deployVotingService>>;
+  let voters: HardhatEthersSigner[];
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    voters = (await ethers.getSigners()).slice(1, 6);
+  });
+
+  function createRankedPoll(slug: string, optionCount: number, overrides: Parameters<typeof pollConfig>[0] = {}) {
+    return createPoll(fixture, slug, { pollType: RANKED_CHOICE, optionCount, ...overrides });
+  }
+
+  async function castRanking(pollId: string, voter: HardhatEthersSigner, ranking: number[]) {
+    const input = fhevm.createEncryptedInput(fixture.proxyAddress, voter.address);
+    ranking.forEach((option) => input.add32(option));
+    const { handles, inputProof } = await input.encrypt();
+    await fixture.admin.connect(voter).castRankedVote(pollId, handles, inputProof, []);
+  }
+
+  /** Counts every ballot for the current round and submits its decrypted totals. */
+  async function runRound(pollId: string, ballotCount: number) {
+    await fixture.service.tallyRankedRound(pollId, ballotCount);
+    const tallied = await fixture.service.queryFilter(fixture.service.filters.RankedRoundTallied(pollId));
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+      ...tallied[tallied.length - 1].args.handles,
+    ]);
+    return fixture.service.submitRankedRound(pollId, abiEncodedClearValues, decryptionProof);
+  }
+
+  /** The invalid-ballot count stays encrypted on ranked polls; the mock's debugger reads it. */
+  async function invalidBallots(pollId: string) {
+    const handle = await fixture.admin.getEncryptedInvalidBallots(pollId);
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+  }
+
+  async function castAndClose(slug: string, rankings: number[][]) {
+    const pollId = await createRankedPoll(slug, 3);
+    for (const [i, ranking] of rankings.entries()) {
+      await castRanking(pollId, voters[i], ranking);
+    }
+    await increaseTime(POLL_DURATION);
+    await fixture.service.closePoll(pollId);
+    return pollId;
+  }
+
+  it("eliminates the trailing option and transfers its ballots", async function () {
+    const rankings = [
+      [0, 1, 2],
+      [0, 1, 2],
+      [1, 0, 2],
+      [2, 1, 0],
+      [2, 0, 1],
+    ];
+    const pollId = await castAndClose("ranked-rounds", rankings);
+
+    await expect(runRound(pollId, rankings.length))
+      .to.emit(fixture.service, "RankedRoundCompleted")
+      .withArgs(pollId, ethers.ZeroHash, 0n, [2n, 1n, 2n], 1n);
+    await expect(runRound(pollId, rankings.length))
+      .to.emit(fixture.service, "RankedChoiceWinner")
+      .withArgs(pollId, ethers.ZeroHash, 1n, 0n);
+
+    expect(await fixture.admin.getRankedRoundCounts(pollId, 1)).to.deep.equal([3n, 0n, 2n]);
+    const [finished, winner, rounds] = await fixture.admin.getRankedResult(pollId);
+    expect([finished, winner, rounds]).to.deep.equal([true, 0n, 2n]);
+    await expect(fixture.service.tallyRankedRound(pollId, 1)).to.be.revertedWith("Count already finished");
+  });
+
+  it("eliminates the higher option on a tie for last and ends a tied final round without a winner", async function () {
+    const rankings = [
+      [0, 1, 2],
+      [0, 1, 2],
+      [1, 0, 2],
+      [2, 1, 0],
+    ];
+    const pollId = await castAndClose("ranked-ties", rankings);
+
+    await expect(runRound(pollId, rankings.length))
+      .to.emit(fixture.service, "RankedRoundCompleted")
+      .withArgs(pollId, ethers.ZeroHash, 0n, [2n, 1n, 1n], 2n);
+    await runRound(pollId, rankings.length);
+
+    expect(await fixture.admin.getRankedRoundCounts(pollId, 1)).to.deep.equal([2n, 2n, 0n]);
+    const [finished, winner, rounds, eliminated] = await fixture.admin.getRankedResult(pollId);
+    expect([finished, winner, rounds, eliminated]).to.deep.equal([true, BigInt(NO_WINNER), 2n, 0b100n]);
+  });
+
+  it("counts rankings that don't order the options as invalid ballots", async function () {
+    const rankings = [
+      [0, 1, 2],
+      [0, 2, 1],
+      // Out of range
+      [1, 3, 0],
+      // Ranks option 1 twice
+      [1, 1, 0],
+      [2, 1, 0],
+    ];
+    const pollId = await castAndClose("ranked-invalid", rankings);
+
+    // The malformed ballots count for no option, so option 0 has a majority of the rest
+    await expect(runRound(pollId, rankings.length))
+      .to.emit(fixture.service, "RankedChoiceWinner")
+      .withArgs(pollId, ethers.ZeroHash, 0n, 0n);
+    expect(await fixture.admin.getRankedRoundCounts(pollId, 0)).to.deep.equal([2n, 0n, 1n]);
+    expect(await invalidBallots(pollId)).to.equal(2n);
+
+    // Only the rounds and the winner are revealed
+    await expect(fixture.admin.getInvalidBallotCount(pollId)).to.be.revertedWith("Tallies not verified");
+    await expect(fhevm.publicDecrypt([await fixture.admin.getEncryptedInvalidBallots(pollId)])).to.be.rejected;
+  });
+
+  it("counts an invalid ranking once whatever its weight", async function () {
+    const token = await ethers.deployContract("SnapshotTokenMock");
+    await token.setBalanceAt(voters[0].address, 1, 5n);
+    await token.setBalanceAt(voters[1].address, 1, 2n);
+    const pollId = await createRankedPoll("ranked-weighted-invalid", 3, {
+      weightToken: await token.getAddress(),
+      weightSnapshotId: 1,
+      weightUnit: 1n,
+    });
+    await castRanking(pollId, voters[0], [0, 0, 1]);
+    await castRanking(pollId, voters[1], [1, 0, 2]);
+    await increaseTime(POLL_DURATION);
+    await fixture.service.closePoll(pollId);
+
+    await runRound(pollId, 2);
+    expect(await fixture.admin.getRankedRoundCounts(pollId, 0)).to.deep.equal([0n, 2n, 0n]);
+    expect(await invalidBallots(pollId)).to.equal(1n);
+  });
+
+  it("moves a re-voted ballot in and out of the invalid count", async function () {
+    const pollId = await createRankedPoll("ranked-revote", 3);
+    await castRanking(pollId, voters[0], [2, 2, 2]);
+    await castRanking(pollId, voters[0], [2, 0, 1]);
+    await castRanking(pollId, voters[1], [1, 0, 2]);
+    await castRanking(pollId, voters[1], [5, 0, 2]);
+    await increaseTime(POLL_DURATION);
+    await fixture.service.closePoll(pollId);
+
+    await runRound(pollId, 2);
+    expect(await fixture.admin.getRankedRoundCounts(pollId, 0)).to.deep.equal([0n, 0n, 1n]);
+    expect(await invalidBallots(pollId)).to.equal(1n);
+  });
+
+  it("counts a full-size ballot within the per-transaction HCU limit", async function () {
+    const pollId = await createRankedPoll("ranked-hcu", MAX_RANKED_OPTIONS);
+    // Counting is oblivious: every ballot costs the same whatever its ranking
+    await castRanking(pollId, voters[0], [7, 6, 5, 4, 3, 2, 1, 0]);
+    await castRanking(pollId, voters[1], [0, 1, 2, 3, 4, 5, 6, 7]);
+    await castRanking(pollId, voters[2], [1, 0, 2, 3, 4, 5, 6, 7]);
+    await increaseTime(POLL_DURATION);
+    await fixture.service.closePoll(pollId);
+
+    for (let b = 0; b < 3; b++) {
+      await fixture.service.tallyRankedRound(pollId, 1);
+    }
+    const handles = (await fixture.service.queryFilter(fixture.service.filters.RankedRoundTallied(pollId)))[0].args
+      .handles;
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([...handles]);
+    await fixture.service.submitRankedRound(pollId, abiEncodedClearValues, decryptionProof);
+    expect(await fixture.admin.getRankedRoundCounts(pollId, 0)).to.deep.equal([1n, 1n, 0n, 0n, 0n, 0n, 0n, 1n]);
+  });
+
+  it("rejects counting more ballots than fit in one transaction", async function () {
+    const pollId = await createRankedPoll("ranked-hcu-batch", MAX_RANKED_OPTIONS);
+    for (const voter of voters.slice(0, 3)) {
+      await castRanking(pollId, voter, [0, 1, 2, 3, 4, 5, 6, 7]);
+    }
+    await increaseTime(POLL_DURATION);
+    await fixture.service.closePoll(pollId);
+
+    // Raised by the coprocessor's HCU accounting, not by the service
+    const hcuLimit = await ethers.getContractAt(["error HCUTransactionLimitExceeded()"], ethers.ZeroAddress);
+    await expect(fixture.service.tallyRankedRound(pollId, 3)).to.be.revertedWithCustomError(
+      hcuLimit,
+      "HCUTransactionLimitExceeded"
+    );
+  });
+});
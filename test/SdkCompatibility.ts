@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import type { Log } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  buildEligibilityTree,
+  getEligibilityProof,
+  hashEligibilityLeaf,
+} from "../frontend/web/fhevm-sdk/src/core/eligibility";
+import {
+  POLL_METADATA_SCHEMA_VERSION,
+  encodePollMetadataDocument,
+  getOptionLabels,
+  getPollMetadata,
+  hashPollMetadataDocument,
+  verifyPollMetadataDocument,
+} from "../frontend/web/fhevm-sdk/src/core/metadata";
+import {
+  EVENT_SCHEMA_VERSION,
+  decodeVotingServiceLog,
+  getPollEvents,
+} from "../frontend/web/fhevm-sdk/src/core/events";
+import {
+  buildBallotTree,
+  getBallotInclusionProof,
+  verifyBallotInclusion,
+} from "../frontend/web/fhevm-sdk/src/core/results";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  pollConfig,
+  pollIdOf,
+  pollMetadata,
+  skipUnlessMock,
+} from "./helpers";
+
+// The SDK's Merkle trees, metadata hashes and event decoding must match what the contracts store and emit
+describe("SDK compatibility", function () {
+  let fixture: Fixture;
+  let members: HardhatEthersSigner[];
+  let outsider: HardhatEthersSigner;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    const signers = await ethers.getSigners();
+    // An odd number of leaves exercises the unpaired node at each level
+    members = signers.slice(1, 6);
+    outsider = signers[6];
+  });
+
+  async function createEligibilityPoll(slug: string) {
+    const tree = buildEligibilityTree(members.map((member) => member.address));
+    await fixture.service.createPoll(
+      slug,
+      "Members only",
+      pollConfig({ eligibilityRoot: tree.root }),
+      pollMetadata(3)
+    );
+    return { pollId: pollIdOf(slug), tree };
+  }
+
+  it("accepts eligibility proofs built by the SDK", async function () {
+    const { pollId, tree } = await createEligibilityPoll("sdk-eligibility");
+    expect(hashEligibilityLeaf(members[0].address)).to.equal(
+      ethers.keccak256(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address"], [members[0].address])))
+    );
+
+    for (const member of members) {
+      const proof = getEligibilityProof(tree, member.address);
+      expect(await fixture.admin.isEligible(pollId, member.address, proof)).to.equal(true);
+    }
+    await castVote(fixture, pollId, members[4], 1, getEligibilityProof(tree, members[4].address));
+
+    const borrowedProof = getEligibilityProof(tree, members[0].address);
+    expect(await fixture.admin.isEligible(pollId, outsider.address, borrowedProof)).to.equal(false);
+    await expect(castVote(fixture, pollId, outsider, 1, borrowedProof)).to.be.revertedWith("Not eligible");
+    expect(() => getEligibilityProof(tree, outsider.address)).to.throw();
+  });
+
+  it("rebuilds the contract's ballot root and proves ballot inclusion", async function () {
+    const { pollId, tree } = await createEligibilityPoll("sdk-ballots");
+    for (const [i, member] of members.entries()) {
+      await castVote(fixture, pollId, member, i % 3, getEligibilityProof(tree, member.address));
+    }
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    while (!(await fixture.admin.isBallotRootFinalized(pollId))) {
+      await fixture.admin.finalizeBallotRoot(pollId, 2);
+    }
+
+    const [page] = await fixture.reader.getPollVotesPage(pollId, 0, members.length);
+    const ballots = page.map(({ encryptedVote, voter }) => ({ encryptedVote, voter }));
+    const ballotTree = buildBallotTree(ballots);
+    const [record] = await fixture.admin.getResultRecord(pollId);
+    expect(record.ballotRoot).to.equal(ballotTree.root);
+
+    for (const { encryptedVote, voter } of ballots) {
+      const proof = getBallotInclusionProof(ballotTree, encryptedVote, voter);
+      expect(verifyBallotInclusion(record.ballotRoot, encryptedVote, voter, proof)).to.equal(true);
+    }
+    const proof = getBallotInclusionProof(ballotTree, ballots[0].encryptedVote, ballots[0].voter);
+    expect(verifyBallotInclusion(record.ballotRoot, ballots[0].encryptedVote, outsider.address, proof)).to.equal(false);
+  });
+
+  it("verifies off-chain metadata documents against the poll's content hash", async function () {
+    const document = {
+      schemaVersion: POLL_METADATA_SCHEMA_VERSION,
+      question: "Which venue?",
+      description: "Pick next year's venue",
+      options: ["Lisbon", "Osaka", "Denver"],
+    };
+    const encoded = encodePollMetadataDocument(document);
+    const metadata = {
+      description: document.description,
+      options: [],
+      contentHash: hashPollMetadataDocument(encoded),
+      schemaVersion: POLL_METADATA_SCHEMA_VERSION,
+    };
+    const unlabelled = { ...metadata, contentHash: ethers.ZeroHash };
+    await expect(fixture.service.createPoll("venue", document.question, pollConfig(), unlabelled)).to.be.revertedWith(
+      "Options need a label each or a content hash"
+    );
+    await expect(
+      fixture.service.createPoll("venue", document.question, pollConfig(), { ...metadata, schemaVersion: 0 })
+    ).to.be.revertedWith("Invalid schema version");
+    await fixture.service.createPoll("venue", document.question, pollConfig(), metadata);
+    const pollId = pollIdOf("venue");
+
+    // The SDK reads getPollMetadata and getPollDetails from the same proxy
+    const abi = [...fixture.service.interface.fragments, ...fixture.admin.interface.fragments].filter(
+      (fragment) => fragment.type !== "constructor"
+    );
+    const contract = new ethers.Contract(fixture.proxyAddress, abi, ethers.provider);
+    expect(await getPollMetadata(contract, pollId)).to.deep.equal(metadata);
+    expect(await verifyPollMetadataDocument(contract, pollId, encoded)).to.deep.equal(document);
+    expect(await verifyPollMetadataDocument(contract, pollId, ethers.toUtf8Bytes(encoded))).to.deep.equal(document);
+    expect(getOptionLabels(metadata, 3, document)).to.deep.equal(document.options);
+
+    const altered = encodePollMetadataDocument({ ...document, options: ["Lisbon", "Osaka", "Austin"] });
+    await expect(verifyPollMetadataDocument(contract, pollId, altered)).to.be.rejectedWith("does not match");
+
+    const labelled = await createPoll(fixture, "labelled");
+    await expect(verifyPollMetadataDocument(contract, labelled, encoded)).to.be.rejectedWith(
+      "has no metadata document"
+    );
+  });
+
+  it("decodes the lifecycle events of one poll from raw logs", async function () {
+    expect(await fixture.service.EVENT_SCHEMA_VERSION()).to.equal(EVENT_SCHEMA_VERSION);
+    const other = await createPoll(fixture, "other");
+    const pollId = await createPoll(fixture, "indexed", { optionCount: 2 });
+    await castVote(fixture, pollId, members[0], 0);
+    await castVote(fixture, pollId, members[1], 1);
+    await castVote(fixture, pollId, members[0], 1);
+    await castVote(fixture, other, members[0], 0);
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+
+    const events = await getPollEvents(ethers.provider, fixture.proxyAddress, pollId);
+    expect(events.map((event) => event.type)).to.deep.equal([
+      "PollCreated",
+      "VoteCast",
+      "VoteCast",
+      "VoteCast",
+      "PollClosed",
+      "TalliesDecrypted",
+    ]);
+    expect(events.every((event) => event.pollId === pollId && event.tenantId === ethers.ZeroHash)).to.equal(true);
+
+    const [created, first, , revote, closed, decrypted] = events;
+    expect(created).to.include({ slug: "indexed", owner: fixture.owner.address, pollType: 0, optionCount: 2 });
+    expect(first).to.include({ voter: members[0].address, ballotIndex: 0, weight: 1, replaced: false });
+    expect(revote).to.include({ voter: members[0].address, ballotIndex: 0, replaced: true });
+    expect(closed).to.include({ closedBy: fixture.owner.address, totalVotes: 2 });
+    expect(decrypted).to.deep.include({ tallies: [0, 2], invalidBallots: 0, totalVotes: 2 });
+    expect(await getPollEvents(ethers.provider, fixture.proxyAddress)).to.have.lengthOf(events.length + 2);
+  });
+
+  it("rejects a PollCreated log whose slug doesn't hash to its poll ID", async function () {
+    const rawLog = ({ topics, data }: { topics: string[]; data: string }) =>
+      ({ topics, data, blockNumber: 1, transactionHash: ethers.ZeroHash, index: 0 }) as unknown as Log;
+    const forged = fixture.service.interface.encodeEventLog("PollCreatedV3", [
+      pollIdOf("genuine"),
+      ethers.ZeroHash,
+      outsider.address,
+      "forged",
+      outsider.address,
+      0,
+      3,
+      0,
+      0,
+    ]);
+    expect(() => decodeVotingServiceLog(rawLog(forged))).to.throw("doesn't match its poll ID");
+
+    const relayed = fixture.service.interface.encodeEventLog("BallotRelayed", [
+      pollIdOf("genuine"),
+      ethers.ZeroHash,
+      outsider.address,
+      outsider.address,
+    ]);
+    expect(decodeVotingServiceLog(rawLog(relayed))).to.equal(null);
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { ethers, fhevm, network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  Fixture,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  skipUnlessMock,
+} from "./helpers";
+
+// Same fields as the SDK's BALLOT_TYPES; ballots.ts imports browser-only code this project doesn't type-check
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: "pollId", type: "bytes32" },
+    { name: "encryptedVote", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+describe("Signed ballots", function () {
+  let fixture: Fixture;
+  let voter: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let impostor: HardhatEthersSigner;
+  let pollId: string;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [, voter, relayer, impostor] = await ethers.getSigners();
+    pollId = await createPoll(fixture, "relayed");
+  });
+
+  async function deadlineIn(seconds: number) {
+    return (await ethers.provider.getBlock("latest"))!.timestamp + seconds;
+  }
+
+  /** The choice is encrypted for the relayer, which submits it; `signer` signs for `voter`. */
+  async function signedBallot(
+    option: number,
+    options: { signer?: HardhatEthersSigner; deadline?: number; chainId?: bigint; verifyingContract?: string } = {}
+  ) {
+    const { handles, inputProof } = await fhevm
+      .createEncryptedInput(fixture.proxyAddress, relayer.address)
+      .add32(option)
+      .encrypt();
+    const deadline = options.deadline ?? (await deadlineIn(600));
+    const domain = {
+      name: "VotingService",
+      version: "1",
+      chainId: options.chainId ?? BigInt(network.config.chainId!),
+      verifyingContract: options.verifyingContract ?? fixture.proxyAddress,
+    };
+    const signature = await (options.signer ?? voter).signTypedData(domain, BALLOT_TYPES, {
+      pollId,
+      encryptedVote: handles[0],
+      inputProof,
+      nonce: await fixture.service.nonces(voter.address),
+      deadline,
+    });
+    return { encryptedVote: handles[0], inputProof, deadline, signature };
+  }
+
+  function relay(ballot: Awaited<ReturnType<typeof signedBallot>>) {
+    return fixture.service
+      .connect(relayer)
+      .castVoteBySig(pollId, ballot.encryptedVote, ballot.inputProof, [], voter.address, ballot.deadline, ballot.signature);
+  }
+
+  it("signs the type the contract hashes", async function () {
+    const encodedType = ethers.TypedDataEncoder.from(BALLOT_TYPES).encodeType("Ballot");
+    expect(ethers.id(encodedType)).to.equal(await fixture.service.BALLOT_TYPEHASH());
+  });
+
+  it("casts a relayed ballot for the voter who signed it", async function () {
+    await expect(relay(await signedBallot(2)))
+      .to.emit(fixture.service, "BallotRelayed")
+      .withArgs(pollId, ethers.ZeroHash, voter.address, relayer.address);
+
+    expect(await fixture.admin.hasVoted(pollId, voter.address)).to.equal(true);
+    expect(await fixture.admin.hasVoted(pollId, relayer.address)).to.equal(false);
+    expect(await fixture.service.nonces(voter.address)).to.equal(1n);
+
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([0n, 0n, 1n]);
+  });
+
+  it("rejects a replayed signature", async function () {
+    const ballot = await signedBallot(1);
+    await relay(ballot);
+    await expect(relay(ballot)).to.be.revertedWith("Invalid signature");
+  });
+
+  it("rejects a signature past its deadline", async function () {
+    const ballot = await signedBallot(1, { deadline: await deadlineIn(60) });
+    await increaseTime(120);
+    await expect(relay(ballot)).to.be.revertedWith("Signature expired");
+  });
+
+  it("rejects a signature from anyone but the voter", async function () {
+    await expect(relay(await signedBallot(1, { signer: impostor }))).to.be.revertedWith("Invalid signature");
+  });
+
+  it("rejects a signature for another chain or contract", async function () {
+    await expect(relay(await signedBallot(1, { chainId: 1n }))).to.be.revertedWith("Invalid signature");
+    await expect(relay(await signedBallot(1, { verifyingContract: await fixture.reader.getAddress() }))).to.be.revertedWith(
+      "Invalid signature"
+    );
+    expect(await fixture.admin.hasVoted(pollId, voter.address)).to.equal(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Fixture, createPoll, deployVotingService, pollIdOf, skipUnlessMock } from "./helpers";
+
+describe("Tenants", function () {
+  let fixture: Fixture;
+  let tenantAdmin: HardhatEthersSigner;
+  let secondAdmin: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let tenantId: string;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [, tenantAdmin, secondAdmin, outsider] = await ethers.getSigners();
+    tenantId = pollIdOf("acme");
+    await expect(fixture.registry.connect(tenantAdmin).registerTenant("acme"))
+      .to.emit(fixture.registry, "TenantRegistered")
+      .withArgs(tenantId, "acme", tenantAdmin.address);
+  });
+
+  function createPollAs(creator: HardhatEthersSigner, slug: string) {
+    return createPoll({ ...fixture, service: fixture.service.connect(creator) }, slug);
+  }
+
+  it("registers each valid name once", async function () {
+    expect(await fixture.registry.getTenant(tenantId)).to.deep.equal(["acme", [tenantAdmin.address]]);
+    expect(await fixture.registry.getTenantCount()).to.equal(1n);
+
+    await expect(fixture.registry.connect(outsider).registerTenant("acme")).to.be.revertedWith(
+      "Tenant already registered"
+    );
+    await expect(fixture.registry.registerTenant("")).to.be.revertedWith("Invalid tenant name");
+    await expect(fixture.registry.registerTenant("a/b")).to.be.revertedWith("Invalid tenant name");
+    await expect(fixture.registry.registerTenant("x".repeat(33))).to.be.revertedWith("Invalid tenant name");
+    await fixture.registry.registerTenant("x".repeat(32));
+  });
+
+  it("keeps a tenant's namespace to its admins", async function () {
+    await expect(createPollAs(outsider, "acme/launch")).to.be.revertedWith("Not tenant admin");
+    await expect(createPollAs(outsider, "unregistered/launch")).to.be.revertedWith("Not tenant admin");
+    await expect(createPollAs(outsider, "/launch")).to.be.revertedWith("Not tenant admin");
+
+    await createPollAs(tenantAdmin, "acme/launch");
+    // Slugs without a slash are open to everyone
+    await createPollAs(outsider, "launch");
+
+    expect(await fixture.service.getPollTenant(pollIdOf("acme/launch"))).to.equal(tenantId);
+    expect(await fixture.service.getPollTenant(pollIdOf("launch"))).to.equal(ethers.ZeroHash);
+    expect(await fixture.service.getTenantPollCount(tenantId)).to.equal(1n);
+    expect(await fixture.service.tenantPollIds(tenantId, 0)).to.equal(pollIdOf("acme/launch"));
+    expect(await fixture.service.getPollCount()).to.equal(2n);
+  });
+
+  it("lets every tenant admin administer the tenant's polls", async function () {
+    await createPollAs(tenantAdmin, "acme/launch");
+    const pollId = pollIdOf("acme/launch");
+    await fixture.registry.connect(tenantAdmin).addTenantAdmin(tenantId, secondAdmin.address);
+
+    expect(await fixture.admin.isPollAdmin(pollId, secondAdmin.address)).to.equal(true);
+    await createPollAs(secondAdmin, "acme/second");
+
+    await fixture.registry.connect(secondAdmin).removeTenantAdmin(tenantId, tenantAdmin.address);
+    expect(await fixture.admin.isPollAdmin(pollId, tenantAdmin.address)).to.equal(true); // Still the owner
+    await expect(createPollAs(tenantAdmin, "acme/third")).to.be.revertedWith("Not tenant admin");
+    await fixture.admin.connect(secondAdmin).cancelPoll(pollId, "Rescheduled");
+  });
+
+  it("manages tenant admins", async function () {
+    await expect(fixture.registry.connect(outsider).addTenantAdmin(tenantId, outsider.address)).to.be.revertedWith(
+      "Not tenant admin"
+    );
+    await expect(
+      fixture.registry.connect(tenantAdmin).addTenantAdmin(tenantId, tenantAdmin.address)
+    ).to.be.revertedWith("Already tenant admin");
+    await expect(
+      fixture.registry.connect(tenantAdmin).removeTenantAdmin(tenantId, tenantAdmin.address)
+    ).to.be.revertedWith("Cannot remove last admin");
+    await expect(fixture.registry.addTenantAdmin(pollIdOf("missing"), outsider.address)).to.be.revertedWith(
+      "Tenant does not exist"
+    );
+
+    await expect(fixture.registry.connect(tenantAdmin).addTenantAdmin(tenantId, secondAdmin.address))
+      .to.emit(fixture.registry, "TenantAdminAdded")
+      .withArgs(tenantId, secondAdmin.address);
+    await expect(fixture.registry.connect(secondAdmin).removeTenantAdmin(tenantId, tenantAdmin.address))
+      .to.emit(fixture.registry, "TenantAdminRemoved")
+      .withArgs(tenantId, tenantAdmin.address);
+    expect(await fixture.registry.getTenant(tenantId)).to.deep.equal(["acme", [secondAdmin.address]]);
+  });
+});
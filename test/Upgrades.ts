@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { StorageVariable, findStorageLayoutConflicts } from "../tasks/utils/storageLayout";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  skipUnlessMock,
+} from "./helpers";
+
+// ERC-1967 slots holding the proxy's ProxyAdmin and implementation
+const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+async function readSlotAddress(address: string, slot: string) {
+  return ethers.getAddress(ethers.dataSlice(await ethers.provider.getStorage(address, slot), 12));
+}
+
+describe("Upgrades", function () {
+  let fixture: Fixture;
+  let voters: HardhatEthersSigner[];
+  let stranger: HardhatEthersSigner;
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [, stranger, ...voters] = await ethers.getSigners();
+  });
+
+  async function deployLibraries() {
+    const rankedChoiceCounting = await ethers.deployContract("RankedChoiceCounting");
+    const confidentialWeighting = await ethers.deployContract("ConfidentialWeighting");
+    return {
+      ConfidentialWeighting: await confidentialWeighting.getAddress(),
+      RankedChoiceCounting: await rankedChoiceCounting.getAddress(),
+    };
+  }
+
+  async function deployImplementation() {
+    const registry = await fixture.registry.getAddress();
+    const libraries = await deployLibraries();
+    const adminModule = await ethers.deployContract("VotingServiceAdmin", [registry], { libraries });
+    return ethers.deployContract("VotingService", [registry, adminModule], { libraries });
+  }
+
+  async function getProxyAdmin() {
+    return ethers.getContractAt("ProxyAdmin", await readSlotAddress(fixture.proxyAddress, ADMIN_SLOT));
+  }
+
+  it("keeps polls and ballots at the proxy address across an upgrade", async function () {
+    const pollId = await createPoll(fixture, "upgraded");
+    await castVote(fixture, pollId, voters[0], 1);
+
+    const implementation = await deployImplementation();
+    const proxyAdmin = await getProxyAdmin();
+    expect(await proxyAdmin.owner()).to.equal(fixture.owner.address);
+    await proxyAdmin.upgradeAndCall(fixture.proxyAddress, implementation, "0x");
+    expect(await readSlotAddress(fixture.proxyAddress, IMPLEMENTATION_SLOT)).to.equal(
+      await implementation.getAddress()
+    );
+
+    expect(await fixture.admin.hasVoted(pollId, voters[0].address)).to.equal(true);
+    await castVote(fixture, pollId, voters[1], 1);
+    await castVote(fixture, pollId, voters[2], 2);
+    await increaseTime(POLL_DURATION);
+    await closeAndVerify(fixture, pollId);
+    expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([0n, 2n, 1n]);
+  });
+
+  it("only lets the ProxyAdmin owner upgrade", async function () {
+    const implementation = await deployImplementation();
+    const proxyAdmin = await getProxyAdmin();
+    await expect(proxyAdmin.connect(stranger).upgradeAndCall(fixture.proxyAddress, implementation, "0x"))
+      .to.be.revertedWithCustomError(proxyAdmin, "OwnableUnauthorizedAccount")
+      .withArgs(stranger.address);
+  });
+
+  it("cannot be initialized again", async function () {
+    await expect(fixture.admin.initialize()).to.be.revertedWithCustomError(fixture.admin, "InvalidInitialization");
+
+    const adminModule = await ethers.deployContract("VotingServiceAdmin", [await fixture.registry.getAddress()], {
+      libraries: await deployLibraries(),
+    });
+    await expect(adminModule.initialize()).to.be.revertedWithCustomError(adminModule, "InvalidInitialization");
+  });
+});
+
+describe("Storage layout checks", function () {
+  const uint256 = { encoding: "inplace", label: "uint256", numberOfBytes: "32" };
+  const address = { encoding: "inplace", label: "address", numberOfBytes: "20" };
+
+  function variable(label: string, slot: number, type = uint256): StorageVariable {
+    return { label, slot: slot.toString(), offset: 0, type };
+  }
+
+  function structMapping(members: StorageVariable[]) {
+    return {
+      encoding: "mapping",
+      label: "mapping(bytes32 => struct Poll)",
+      numberOfBytes: "32",
+      key: { encoding: "inplace", label: "bytes32", numberOfBytes: "32" },
+      value: { encoding: "inplace", label: "struct Poll", numberOfBytes: `${members.length * 32}`, members },
+    };
+  }
+
+  it("accepts appended variables and mapped struct members", function () {
+    const previous = [variable("polls", 0, structMapping([variable("endTime", 0)])), variable("pollCount", 1)];
+    const current = [
+      variable("polls", 0, structMapping([variable("endTime", 0), variable("startTime", 1)])),
+      variable("pollCount", 1),
+      variable("nonces", 2),
+    ];
+    expect(findStorageLayoutConflicts(previous, current)).to.deep.equal([]);
+  });
+
+  it("reports removed, replaced and retyped variables", function () {
+    const previous = [variable("polls", 0), variable("pollCount", 1), variable("owner", 2, address)];
+    expect(findStorageLayoutConflicts(previous, [variable("polls", 0)])).to.deep.equal([
+      "pollCount was removed",
+      "owner was removed",
+    ]);
+    expect(
+      findStorageLayoutConflicts(previous, [variable("polls", 0), variable("nonces", 1), variable("owner", 2)])
+    ).to.deep.equal(["pollCount was replaced by nonces", "owner changed from address to uint256"]);
+  });
+
+  it("reports struct members inserted before existing ones", function () {
+    const previous = [variable("polls", 0, structMapping([variable("endTime", 0)]))];
+    const current = [variable("polls", 0, structMapping([variable("startTime", 0), variable("endTime", 1)]))];
+    expect(findStorageLayoutConflicts(previous, current)).to.deep.equal([
+      "polls[].endTime was replaced by polls[].startTime",
+    ]);
+  });
+});
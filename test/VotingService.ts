@@ -0,0 +1,306 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  closeAndVerify,
+  createPoll,
+  deployVotingService,
+  increaseTime,
+  skipUnlessMock,
+} from "./helpers";
+
+describe("VotingService", function () {
+  let fixture: Fixture;
+  let voters: HardhatEthersSigner[];
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    voters = (await ethers.getSigners()).slice(1, 5);
+  });
+
+  describe("plurality tallies", function () {
+    it("counts each ballot towards the option it names", async function () {
+      const pollId = await createPoll(fixture, "plurality");
+      await castVote(fixture, pollId, voters[0], 0);
+      await castVote(fixture, pollId, voters[1], 1);
+      await castVote(fixture, pollId, voters[2], 1);
+      await increaseTime(POLL_DURATION);
+      await closeAndVerify(fixture, pollId);
+
+      expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([1n, 2n, 0n]);
+      expect(await fixture.admin.getInvalidBallotCount(pollId)).to.equal(0n);
+    });
+
+    it("keeps tallies sealed until the poll is closed", async function () {
+      const pollId = await createPoll(fixture, "sealed");
+      await castVote(fixture, pollId, voters[0], 0);
+
+      await expect(fixture.service.closePoll(pollId)).to.be.revertedWith("Voting still in progress");
+      const [tally] = await fixture.admin.getEncryptedTallies(pollId);
+      await expect(fhevm.publicDecrypt([tally])).to.be.rejected;
+    });
+
+    it("releases the tally handles when the poll is closed after its deadline", async function () {
+      const pollId = await createPoll(fixture, "released");
+      await castVote(fixture, pollId, voters[0], 1);
+      await increaseTime(POLL_DURATION);
+
+      const handles = [
+        ...(await fixture.admin.getEncryptedTallies(pollId)),
+        await fixture.admin.getEncryptedInvalidBallots(pollId),
+      ];
+      await expect(fhevm.publicDecrypt(handles)).to.be.rejected;
+      await expect(fixture.service.connect(voters[0]).closePoll(pollId)).to.be.revertedWith("Not poll admin");
+      await expect(fixture.service.closePoll(pollId))
+        .to.emit(fixture.service, "TalliesReleased")
+        .withArgs(pollId, ethers.ZeroHash, handles);
+      await expect(fixture.service.closePoll(pollId)).to.be.revertedWith("Poll already closed");
+
+      const { abiEncodedClearValues } = await fhevm.publicDecrypt(handles);
+      const clearValues = ethers.AbiCoder.defaultAbiCoder().decode(Array(4).fill("uint32"), abiEncodedClearValues);
+      expect([...clearValues]).to.deep.equal([0n, 1n, 0n, 0n]);
+    });
+  });
+
+  describe("ballot privacy", function () {
+    it("never makes an individual ballot publicly decryptable", async function () {
+      const pollId = await createPoll(fixture, "private");
+      await castVote(fixture, pollId, voters[0], 2);
+      await increaseTime(POLL_DURATION);
+      await closeAndVerify(fixture, pollId);
+
+      const [ballot] = await fixture.admin.getVote(pollId, 0);
+      await expect(fhevm.publicDecrypt([ballot])).to.be.rejected;
+    });
+
+    it("lets only the voter decrypt their ballot when the poll allows it", async function () {
+      const pollId = await createPoll(fixture, "voter-readable");
+      await castVote(fixture, pollId, voters[0], 2);
+      const [ballot] = await fixture.admin.getVote(pollId, 0);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, ballot, fixture.proxyAddress, voters[0])).to.equal(2n);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, ballot, fixture.proxyAddress, voters[1])
+      ).to.be.rejected;
+
+      const sealedId = await createPoll(fixture, "contract-only", { voterCanDecrypt: false });
+      await castVote(fixture, sealedId, voters[0], 2);
+      const [sealedBallot] = await fixture.admin.getVote(sealedId, 0);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, sealedBallot, fixture.proxyAddress, voters[0])
+      ).to.be.rejected;
+    });
+  });
+
+  describe("weighted tallies", function () {
+    const SNAPSHOT_ID = 7;
+    const WEIGHT_UNIT = 10n;
+
+    it("weights each ballot by the voter's snapshot balance", async function () {
+      const token = await ethers.deployContract("SnapshotTokenMock");
+      await token.setBalanceAt(voters[0].address, SNAPSHOT_ID, 25n);
+      await token.setBalanceAt(voters[1].address, SNAPSHOT_ID, 10n);
+      const pollId = await createPoll(fixture, "weighted", {
+        weightToken: await token.getAddress(),
+        weightSnapshotId: SNAPSHOT_ID,
+        weightUnit: WEIGHT_UNIT,
+      });
+
+      expect(await fixture.admin.getVotingWeight(pollId, voters[0].address)).to.equal(2n);
+      await castVote(fixture, pollId, voters[0], 2);
+      await castVote(fixture, pollId, voters[1], 0);
+      await expect(castVote(fixture, pollId, voters[2], 0)).to.be.revertedWith("No voting weight");
+      await increaseTime(POLL_DURATION);
+      await closeAndVerify(fixture, pollId);
+
+      expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([1n, 0n, 2n]);
+    });
+
+    it("stops the total weight at what a tally can hold", async function () {
+      const token = await ethers.deployContract("SnapshotTokenMock");
+      const maxWeight = 2n ** 32n - 1n;
+      await token.setBalanceAt(voters[0].address, SNAPSHOT_ID, (maxWeight - 1n) * WEIGHT_UNIT);
+      await token.setBalanceAt(voters[1].address, SNAPSHOT_ID, WEIGHT_UNIT);
+      await token.setBalanceAt(voters[2].address, SNAPSHOT_ID, WEIGHT_UNIT);
+      const pollId = await createPoll(fixture, "weight-limit", {
+        weightToken: await token.getAddress(),
+        weightSnapshotId: SNAPSHOT_ID,
+        weightUnit: WEIGHT_UNIT,
+      });
+
+      await castVote(fixture, pollId, voters[0], 0);
+      await castVote(fixture, pollId, voters[1], 0);
+      await expect(castVote(fixture, pollId, voters[2], 1)).to.be.revertedWith("Total voting weight too large");
+      // A re-vote swaps the voter's weight rather than adding to it
+      await castVote(fixture, pollId, voters[1], 1);
+      await increaseTime(POLL_DURATION);
+      await closeAndVerify(fixture, pollId);
+
+      expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([maxWeight - 1n, 1n, 0n]);
+    });
+  });
+
+  describe("re-votes", function () {
+    it("replaces the voter's earlier ballot in the tallies", async function () {
+      const pollId = await createPoll(fixture, "revote");
+      await castVote(fixture, pollId, voters[0], 0);
+      await castVote(fixture, pollId, voters[1], 0);
+      await expect(castVote(fixture, pollId, voters[0], 2))
+        .to.emit(fixture.service, "VoteCastV3")
+        .withArgs(pollId, ethers.ZeroHash, voters[0].address, 0n, 1n, true, (timestamp: bigint) => timestamp > 0n);
+      await increaseTime(POLL_DURATION);
+      await closeAndVerify(fixture, pollId);
+
+      expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([1n, 0n, 1n]);
+      const [, , , , totalVotes] = await fixture.service.getPollDetails(pollId);
+      expect(totalVotes).to.equal(2n);
+    });
+
+    it("rejects a second ballot when re-voting is off", async function () {
+      const pollId = await createPoll(fixture, "single-vote", { allowRevote: false });
+      await castVote(fixture, pollId, voters[0], 0);
+      await expect(castVote(fixture, pollId, voters[0], 1)).to.be.revertedWith("Already voted");
+    });
+  });
+
+  describe("clamping", function () {
+    it("counts an out-of-range ballot as invalid without touching the options", async function () {
+      const pollId = await createPoll(fixture, "clamped");
+      await castVote(fixture, pollId, voters[0], 1);
+      await castVote(fixture, pollId, voters[1], 9);
+
+      // The stored ballot is clamped to optionCount, which matches no option
+      const [storedBallot] = await fixture.admin.getVote(pollId, 1);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, storedBallot, fixture.proxyAddress, voters[1])
+      ).to.equal(3n);
+
+      await increaseTime(POLL_DURATION);
+      await closeAndVerify(fixture, pollId);
+      expect(await fixture.admin.getPollResults(pollId)).to.deep.equal([0n, 1n, 0n]);
+      expect(await fixture.admin.getInvalidBallotCount(pollId)).to.equal(1n);
+    });
+  });
+
+  describe("batch verification", function () {
+    async function pollWithVotes(slug: string, options: number[]) {
+      const pollId = await createPoll(fixture, slug);
+      for (const [i, option] of options.entries()) {
+        await castVote(fixture, pollId, voters[i], option);
+      }
+      return pollId;
+    }
+
+    async function tallyHandles(pollIds: string[]) {
+      const handles: string[] = [];
+      for (const pollId of pollIds) {
+        handles.push(
+          ...(await fixture.admin.getEncryptedTallies(pollId)),
+          await fixture.admin.getEncryptedInvalidBallots(pollId)
+        );
+      }
+      return handles;
+    }
+
+    it("verifies the tallies of several polls with one proof", async function () {
+      const first = await pollWithVotes("batch-first", [0, 2]);
+      const second = await pollWithVotes("batch-second", [1, 1, 7]);
+      await increaseTime(POLL_DURATION);
+      await fixture.service.closePoll(first);
+      await fixture.service.closePoll(second);
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(
+        await tallyHandles([first, second])
+      );
+      await expect(fixture.service.verifyTalliesBatch([first, second], abiEncodedClearValues, decryptionProof))
+        .to.emit(fixture.service, "TalliesBatchVerified")
+        .withArgs(2n, 8n);
+
+      expect(await fixture.admin.getPollResults(first)).to.deep.equal([1n, 0n, 1n]);
+      expect(await fixture.admin.getPollResults(second)).to.deep.equal([0n, 2n, 0n]);
+      expect(await fixture.admin.getInvalidBallotCount(second)).to.equal(1n);
+      const [firstRecord] = await fixture.admin.getResultRecord(first);
+      const [secondRecord] = await fixture.admin.getResultRecord(second);
+      expect(firstRecord.proofHash).to.equal(ethers.keccak256(decryptionProof));
+      expect(secondRecord.proofHash).to.equal(firstRecord.proofHash);
+    });
+
+    it("records none of the polls when one can't be verified", async function () {
+      const closed = await pollWithVotes("batch-closed", [0]);
+      const open = await pollWithVotes("batch-open", [1]);
+      await increaseTime(POLL_DURATION);
+      await fixture.service.closePoll(closed);
+
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(await tallyHandles([closed]));
+      await expect(
+        fixture.service.verifyTalliesBatch([closed, open], abiEncodedClearValues, decryptionProof)
+      ).to.be.revertedWith("Poll not closed");
+
+      await fixture.service.verifyTalliesBatch([closed], abiEncodedClearValues, decryptionProof);
+      await expect(
+        fixture.service.verifyTalliesBatch([closed], abiEncodedClearValues, decryptionProof)
+      ).to.be.revertedWith("Tallies already verified");
+      expect(await fixture.admin.areTalliesVerified(open)).to.equal(false);
+    });
+
+    it("rejects a proof for other values or an empty batch", async function () {
+      const first = await pollWithVotes("batch-a", [0]);
+      const second = await pollWithVotes("batch-b", [1]);
+      await increaseTime(POLL_DURATION);
+      await fixture.service.closePoll(first);
+      await fixture.service.closePoll(second);
+
+      // Clear values listed in another order than the proof signed
+      const { decryptionProof } = await fhevm.publicDecrypt(await tallyHandles([first, second]));
+      const { abiEncodedClearValues: swapped } = await fhevm.publicDecrypt(await tallyHandles([second, first]));
+      await expect(fixture.service.verifyTalliesBatch([first, second], swapped, decryptionProof)).to.be.reverted;
+
+      await expect(fixture.service.verifyTalliesBatch([], "0x", "0x")).to.be.revertedWith("No polls given");
+    });
+  });
+
+  describe("result records", function () {
+    it("records the verified tallies with the decryption proof's hash", async function () {
+      const pollId = await createPoll(fixture, "recorded");
+      await castVote(fixture, pollId, voters[0], 0);
+      await castVote(fixture, pollId, voters[1], 5);
+      await increaseTime(POLL_DURATION);
+
+      await expect(fixture.admin.getResultRecord(pollId)).to.be.revertedWith("Tallies not verified");
+      const decryptionProof = await closeAndVerify(fixture, pollId);
+
+      const [record, tallies, invalidBallots] = await fixture.admin.getResultRecord(pollId);
+      expect(record.proofHash).to.equal(ethers.keccak256(decryptionProof));
+      expect(record.ballotCount).to.equal(2n);
+      expect(record.ballotRoot).to.equal(ethers.ZeroHash);
+      expect(tallies).to.deep.equal([1n, 0n, 0n]);
+      expect(invalidBallots).to.equal(1n);
+      await expect(closeAndVerify(fixture, pollId)).to.be.revertedWith("Poll already closed");
+    });
+
+    it("finalizes the ballot root over several calls", async function () {
+      const pollId = await createPoll(fixture, "finalized");
+      for (const [i, voter] of voters.entries()) {
+        await castVote(fixture, pollId, voter, i % 3);
+      }
+      await increaseTime(POLL_DURATION);
+      await expect(fixture.admin.finalizeBallotRoot(pollId, 2)).to.be.revertedWith("Tallies not verified");
+      await closeAndVerify(fixture, pollId);
+
+      await fixture.admin.finalizeBallotRoot(pollId, 3);
+      expect(await fixture.admin.isBallotRootFinalized(pollId)).to.equal(false);
+      await expect(fixture.admin.finalizeBallotRoot(pollId, 3)).to.emit(fixture.admin, "PollFinalized");
+      expect(await fixture.admin.isBallotRootFinalized(pollId)).to.equal(true);
+
+      const [record] = await fixture.admin.getResultRecord(pollId);
+      expect(record.ballotRoot).to.not.equal(ethers.ZeroHash);
+      await expect(fixture.admin.finalizeBallotRoot(pollId, 1)).to.be.revertedWith("Ballot root already finalized");
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  POLL_DURATION,
+  Fixture,
+  castVote,
+  deployVotingService,
+  pollConfig,
+  pollIdOf,
+  pollMetadata,
+  skipUnlessMock,
+} from "./helpers";
+
+const ACTIVE = 1;
+const CANCELLED = 4;
+
+describe("VotingServiceReader", function () {
+  let fixture: Fixture;
+  let owner: HardhatEthersSigner;
+  let tenantAdmin: HardhatEthersSigner;
+  let voters: HardhatEthersSigner[];
+  let tenantId: string;
+
+  const noFilter = {
+    filterByStatus: false,
+    status: 0,
+    tenantId: ethers.ZeroHash,
+    creator: ethers.ZeroAddress,
+    fromTime: 0,
+    toTime: 0,
+  };
+
+  before(skipUnlessMock);
+
+  beforeEach(async function () {
+    fixture = await deployVotingService();
+    [owner, tenantAdmin, ...voters] = await ethers.getSigners();
+    await fixture.registry.connect(tenantAdmin).registerTenant("acme");
+    tenantId = pollIdOf("acme");
+
+    // Shared polls a, b, c (c cancelled), then acme/d and acme/e
+    for (const slug of ["a", "b", "c"]) {
+      await fixture.service.createPoll(slug, `Poll ${slug}?`, pollConfig(), pollMetadata(3));
+    }
+    await fixture.admin.cancelPoll(pollIdOf("c"), "Withdrawn");
+    for (const slug of ["acme/d", "acme/e"]) {
+      await fixture.service
+        .connect(tenantAdmin)
+        .createPoll(slug, `Poll ${slug}?`, pollConfig(), pollMetadata(3));
+    }
+  });
+
+  const slugsOf = (page: { slug: string }[]) => page.map((summary) => summary.slug);
+
+  it("pages through every poll in creation order", async function () {
+    const [first, total] = await fixture.reader.getPollsPage(ethers.ZeroHash, 0, 2);
+    expect(total).to.equal(5n);
+    expect(slugsOf(first)).to.deep.equal(["a", "b"]);
+    expect(first[0].pollId).to.equal(pollIdOf("a"));
+    expect(first[0].creator).to.equal(owner.address);
+    expect(first[0].question).to.equal("Poll a?");
+    expect(first[0].status).to.equal(ACTIVE);
+
+    const [last] = await fixture.reader.getPollsPage(ethers.ZeroHash, 4, 2);
+    expect(slugsOf(last)).to.deep.equal(["acme/e"]);
+    const [pastEnd, sameTotal] = await fixture.reader.getPollsPage(ethers.ZeroHash, 9, 2);
+    expect(pastEnd).to.deep.equal([]);
+    expect(sameTotal).to.equal(5n);
+  });
+
+  it("pages through one tenant's polls", async function () {
+    const [page, total] = await fixture.reader.getPollsPage(tenantId, 0, 10);
+    expect(total).to.equal(2n);
+    expect(slugsOf(page)).to.deep.equal(["acme/d", "acme/e"]);
+    expect(page[0].tenantId).to.equal(tenantId);
+  });
+
+  it("rejects page sizes outside the limits", async function () {
+    await expect(fixture.reader.getPollsPage(ethers.ZeroHash, 0, 0)).to.be.revertedWith("Invalid page size");
+    await expect(fixture.reader.getPollsPage(ethers.ZeroHash, 0, 101)).to.be.revertedWith("Invalid page size");
+    await expect(fixture.reader.findPolls(noFilter, 0, 10, 201)).to.be.revertedWith("Invalid scan size");
+  });
+
+  it("finds polls by status, creator and tenant", async function () {
+    const [cancelled] = await fixture.reader.findPolls(
+      { ...noFilter, filterByStatus: true, status: CANCELLED },
+      0,
+      10,
+      10
+    );
+    expect(slugsOf(cancelled)).to.deep.equal(["c"]);
+
+    const [byCreator] = await fixture.reader.findPolls({ ...noFilter, creator: tenantAdmin.address }, 0, 10, 10);
+    expect(slugsOf(byCreator)).to.deep.equal(["acme/d", "acme/e"]);
+
+    const [activeInTenant, nextCursor] = await fixture.reader.findPolls(
+      { ...noFilter, tenantId, filterByStatus: true, status: ACTIVE },
+      0,
+      10,
+      10
+    );
+    expect(slugsOf(activeInTenant)).to.deep.equal(["acme/d", "acme/e"]);
+    expect(nextCursor).to.equal(0n);
+  });
+
+  it("finds polls whose voting window overlaps a time range", async function () {
+    const [, start, end] = await fixture.service.getPollDetails(pollIdOf("a"));
+    const [overlapping] = await fixture.reader.findPolls({ ...noFilter, fromTime: end, toTime: end }, 0, 10, 10);
+    expect(overlapping).to.have.lengthOf(5);
+
+    const [after] = await fixture.reader.findPolls({ ...noFilter, fromTime: end + BigInt(POLL_DURATION) }, 0, 10, 10);
+    expect(after).to.deep.equal([]);
+    const [before] = await fixture.reader.findPolls({ ...noFilter, toTime: start - 1n }, 0, 10, 10);
+    expect(before).to.deep.equal([]);
+  });
+
+  it("continues a filtered scan from its cursor", async function () {
+    const filter = { ...noFilter, creator: owner.address };
+
+    const [first, cursor] = await fixture.reader.findPolls(filter, 0, 10, 2);
+    expect(slugsOf(first)).to.deep.equal(["a", "b"]);
+    expect(cursor).to.equal(2n);
+
+    // A page can fill before the scan does
+    const [limited, limitedCursor] = await fixture.reader.findPolls(filter, 0, 1, 10);
+    expect(slugsOf(limited)).to.deep.equal(["a"]);
+    expect(limitedCursor).to.equal(1n);
+
+    // Or come back empty while there is more to scan
+    const [second, secondCursor] = await fixture.reader.findPolls(filter, cursor, 10, 2);
+    expect(slugsOf(second)).to.deep.equal(["c"]);
+    expect(secondCursor).to.equal(4n);
+    const [third, thirdCursor] = await fixture.reader.findPolls(filter, secondCursor, 10, 2);
+    expect(third).to.deep.equal([]);
+    expect(thirdCursor).to.equal(0n);
+  });
+
+  it("pages through a poll's ballots", async function () {
+    const pollId = pollIdOf("a");
+    for (const [i, voter] of voters.slice(0, 3).entries()) {
+      await castVote(fixture, pollId, voter, i);
+    }
+
+    const [first, total] = await fixture.reader.getPollVotesPage(pollId, 0, 2);
+    expect(total).to.equal(3n);
+    expect(first.map((ballot) => ballot.voter)).to.deep.equal([voters[0].address, voters[1].address]);
+    expect(first[0].weight).to.equal(1n);
+    const [second] = await fixture.reader.getPollVotesPage(pollId, 2, 2);
+    expect(second.map((ballot) => ballot.voter)).to.deep.equal([voters[2].address]);
+    const [stored] = await fixture.admin.getVote(pollId, 2);
+    expect(second[0].encryptedVote).to.equal(stored);
+  });
+});
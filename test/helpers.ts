@@ -0,0 +1,155 @@
+import { ethers, fhevm, network } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+export type PollConfig = {
+  pollType: number;
+  optionCount: number;
+  startTime: number;
+  duration: number;
+  voterCanDecrypt: boolean;
+  allowRevote: boolean;
+  quorum: number;
+  approvalBps: number;
+  hideCounts: boolean;
+  eligibilityRoot: string;
+  weightToken: string;
+  weightSnapshotId: number;
+  weightUnit: bigint;
+  eligibilityNft: string;
+  confidentialToken: string;
+  confidentialMinBalance: bigint;
+  confidentialWeightUnit: bigint;
+};
+
+export const PLURALITY = 0;
+export const RANKED_CHOICE = 1;
+
+export const POLL_DURATION = 3600;
+
+/**
+ * Deploys the service behind its proxy, with the reader bound to it. `service` and `admin` are
+ * both the proxy, seen through the core and the admin module ABIs. Tests can swap in an admin
+ * module that extends VotingServiceAdmin.
+ */
+export async function deployVotingService(adminModuleName = "VotingServiceAdmin") {
+  const [owner] = await ethers.getSigners();
+  const tenantRegistry = await ethers.deployContract("TenantRegistry");
+  const rankedChoiceCounting = await ethers.deployContract("RankedChoiceCounting");
+  const confidentialWeighting = await ethers.deployContract("ConfidentialWeighting");
+  const libraries = {
+    ConfidentialWeighting: await confidentialWeighting.getAddress(),
+    RankedChoiceCounting: await rankedChoiceCounting.getAddress(),
+  };
+  const adminModule = await ethers.deployContract(adminModuleName, [tenantRegistry], { libraries });
+  const implementation = await ethers.deployContract("VotingService", [tenantRegistry, adminModule], { libraries });
+  const initializeData = adminModule.interface.encodeFunctionData("initialize");
+  const proxy = await ethers.deployContract("VotingServiceProxy", [implementation, owner.address, initializeData]);
+  const proxyAddress = await proxy.getAddress();
+
+  const service = await ethers.getContractAt("VotingService", proxyAddress);
+  const admin = await ethers.getContractAt("VotingServiceAdmin", proxyAddress);
+  const reader = await ethers.deployContract("VotingServiceReader", [proxyAddress]);
+  const registry = await ethers.getContractAt("TenantRegistry", await tenantRegistry.getAddress());
+  return { owner, proxyAddress, service, admin, reader, registry };
+}
+
+export type Fixture = Awaited<ReturnType<typeof deployVotingService>>;
+
+/** For `before`: the suites decrypt through the mock coprocessor, so they skip on a real network. */
+export function skipUnlessMock(this: Mocha.Context) {
+  if (!fhevm.isMock) {
+    this.skip();
+  }
+}
+
+export function pollConfig(overrides: Partial<PollConfig> = {}): PollConfig {
+  return {
+    pollType: PLURALITY,
+    optionCount: 3,
+    startTime: 0,
+    duration: POLL_DURATION,
+    voterCanDecrypt: true,
+    allowRevote: true,
+    quorum: 0,
+    approvalBps: 0,
+    hideCounts: false,
+    eligibilityRoot: ethers.ZeroHash,
+    weightToken: ethers.ZeroAddress,
+    weightSnapshotId: 0,
+    weightUnit: 0n,
+    eligibilityNft: ethers.ZeroAddress,
+    confidentialToken: ethers.ZeroAddress,
+    confidentialMinBalance: 0n,
+    confidentialWeightUnit: 0n,
+    ...overrides,
+  };
+}
+
+export function pollMetadata(optionCount: number) {
+  const options = Array.from({ length: optionCount }, (_, i) => `Option ${i}`);
+  return { description: "", options, contentHash: ethers.ZeroHash, schemaVersion: 1 };
+}
+
+export function pollIdOf(slug: string) {
+  return ethers.keccak256(ethers.toUtf8Bytes(slug));
+}
+
+/** Creates a poll asking "Which option?" with labelled options; returns its ID. */
+export async function createPoll(fixture: Fixture, slug: string, overrides: Partial<PollConfig> = {}) {
+  const config = pollConfig(overrides);
+  await fixture.service.createPoll(slug, "Which option?", config, pollMetadata(config.optionCount));
+  return pollIdOf(slug);
+}
+
+export async function increaseTime(seconds: number) {
+  await network.provider.send("evm_increaseTime", [seconds]);
+  await network.provider.send("evm_mine", []);
+}
+
+/** Encrypts `option` for `voter` and casts it as an address ballot. */
+export async function castVote(
+  fixture: Fixture,
+  pollId: string,
+  voter: HardhatEthersSigner,
+  option: number,
+  eligibilityProof: string[] = []
+) {
+  const { handles, inputProof } = await fhevm
+    .createEncryptedInput(fixture.proxyAddress, voter.address)
+    .add32(option)
+    .encrypt();
+  return fixture.service
+    .connect(voter)
+    ["castVote(bytes32,bytes32,bytes,bytes32[])"](pollId, handles[0], inputProof, eligibilityProof);
+}
+
+/** Closes a plurality poll whose voting is over and verifies its tallies with a mock KMS proof. */
+export async function closeAndVerify(fixture: Fixture, pollId: string) {
+  await fixture.service.closePoll(pollId);
+  return verifyTallies(fixture, pollId);
+}
+
+/** Verifies a closed plurality poll's tallies with a mock KMS proof; returns the proof. */
+export async function verifyTallies(fixture: Fixture, pollId: string) {
+  const handles = [
+    ...(await fixture.admin.getEncryptedTallies(pollId)),
+    await fixture.admin.getEncryptedInvalidBallots(pollId),
+  ];
+  const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+  await fixture.service.verifyTallies(pollId, abiEncodedClearValues, decryptionProof);
+  return decryptionProof;
+}
+
+/** Closes a poll with outcome rules and verifies its released outcome with a mock KMS proof. */
+export async function closeAndVerifyOutcome(fixture: Fixture, pollId: string) {
+  const receipt = await (await fixture.service.closePoll(pollId)).wait();
+  const released = receipt!.logs
+    .map((log) => fixture.service.interface.parseLog(log))
+    .find((parsed) => parsed?.name === "OutcomeReleased")!;
+  const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+    released.args.quorumMetHandle,
+    released.args.passedHandle,
+  ]);
+  await fixture.admin.verifyOutcome(pollId, abiEncodedClearValues, decryptionProof);
+  return fixture.admin.getPollOutcome(pollId);
+}